@@ -1,10 +1,34 @@
-import type { AIProvider } from "../config/settings";
+import type * as vscode from "vscode";
+import type { AIProvider } from "../config/settingsCore";
+import { describeModel, type ModelInfo } from "./modelMetadata";
 
-export async function fetchModels(params: {
+export type { ModelInfo } from "./modelMetadata";
+
+const CACHE_KEY = "vscodeCodeReview.modelCatalog";
+// Model lists change rarely; "Refresh model list" in the picker bypasses the cache.
+const CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+
+/** A model list request that failed, with the provider's own error message when it sent one. */
+export class ModelCatalogError extends Error {
+  constructor(
+    message: string,
+    readonly status?: number,
+  ) {
+    super(message);
+    this.name = "ModelCatalogError";
+  }
+}
+
+export interface FetchModelsParams {
   provider: AIProvider;
   apiKey: string;
+  /** Endpoint of the OpenAI-compatible provider. */
+  baseUrl?: string;
+  headers?: Record<string, string>;
   abortSignal?: AbortSignal;
-}): Promise<string[]> {
+}
+
+export async function fetchModels(params: FetchModelsParams): Promise<ModelInfo[]> {
   switch (params.provider) {
     case "openai":
       return fetchOpenAIModels(params.apiKey, params.abortSignal);
@@ -12,40 +36,180 @@ export async function fetchModels(params: {
       return fetchAnthropicModels(params.apiKey, params.abortSignal);
     case "google":
       return fetchGoogleModels(params.apiKey, params.abortSignal);
+    case "openaiCompatible":
+      return fetchOpenAICompatibleModels(
+        params.baseUrl ?? "",
+        params.apiKey,
+        params.headers ?? {},
+        params.abortSignal,
+      );
+    case "vscodeLm":
+      // Listed through `vscode.lm` by the caller; there is no HTTP endpoint to query.
+      return [];
   }
 }
 
-async function fetchOpenAIModels(apiKey: string, signal?: AbortSignal): Promise<string[]> {
-  const res = await fetch("https://api.openai.com/v1/models", {
-    headers: { Authorization: `Bearer ${apiKey}` },
+/** GET a model list, turning HTTP and network failures into a `ModelCatalogError`. */
+async function getJson<T>(
+  label: string,
+  url: string,
+  headers: Record<string, string>,
+  signal?: AbortSignal,
+): Promise<T> {
+  let res: Response;
+  try {
+    res = await fetch(url, { headers, signal });
+  } catch (err) {
+    if (signal?.aborted) throw new ModelCatalogError(`${label}: request timed out.`);
+    const msg = err instanceof Error ? err.message : String(err);
+    throw new ModelCatalogError(`${label}: could not connect (${msg}).`);
+  }
+  if (!res.ok) {
+    const body = await res.text().catch(() => "");
+    let detail = body.slice(0, 300);
+    try {
+      const parsed = JSON.parse(body) as { error?: { message?: string } | string };
+      const apiMessage = typeof parsed.error === "string" ? parsed.error : parsed.error?.message;
+      if (apiMessage) detail = apiMessage;
+    } catch {
+      // not JSON: keep the raw text
+    }
+    throw new ModelCatalogError(
+      `${label}: ${res.status} ${res.statusText}${detail ? ` – ${detail}` : ""}`,
+      res.status,
+    );
+  }
+  return (await res.json()) as T;
+}
+
+const byId = (a: ModelInfo, b: ModelInfo) => a.id.localeCompare(b.id);
+
+async function fetchOpenAIModels(apiKey: string, signal?: AbortSignal): Promise<ModelInfo[]> {
+  const data = await getJson<{ data?: Array<{ id: string }> }>(
+    "OpenAI model list",
+    "https://api.openai.com/v1/models",
+    { Authorization: `Bearer ${apiKey}` },
     signal,
-  });
-  if (!res.ok) return [];
-  const data = (await res.json()) as { data?: Array<{ id: string }> };
-  const ids = (data.data ?? []).map((m) => m.id);
-  return ids.sort();
+  );
+  return (data.data ?? []).map((m) => describeModel("openai", m.id)).sort(byId);
 }
 
-async function fetchAnthropicModels(apiKey: string, signal?: AbortSignal): Promise<string[]> {
-  const res = await fetch("https://api.anthropic.com/v1/models", {
-    headers: { "x-api-key": apiKey, "anthropic-version": "2023-06-01" },
+async function fetchAnthropicModels(apiKey: string, signal?: AbortSignal): Promise<ModelInfo[]> {
+  const data = await getJson<{ data?: Array<{ id: string; display_name?: string }> }>(
+    "Anthropic model list",
+    "https://api.anthropic.com/v1/models",
+    { "x-api-key": apiKey, "anthropic-version": "2023-06-01" },
     signal,
-  });
-  if (!res.ok) return [];
-  const data = (await res.json()) as { data?: Array<{ id: string }> };
-  return (data.data ?? []).map((m) => m.id).sort();
+  );
+  return (data.data ?? [])
+    .map((m) => describeModel("anthropic", m.id, { displayName: m.display_name }))
+    .sort(byId);
 }
 
-async function fetchGoogleModels(apiKey: string, signal?: AbortSignal): Promise<string[]> {
-  const res = await fetch(`https://generativelanguage.googleapis.com/v1beta/models?key=${apiKey}`, {
+async function fetchGoogleModels(apiKey: string, signal?: AbortSignal): Promise<ModelInfo[]> {
+  const data = await getJson<{
+    models?: Array<{
+      name: string;
+      displayName?: string;
+      inputTokenLimit?: number;
+      outputTokenLimit?: number;
+      supportedGenerationMethods?: string[];
+    }>;
+  }>(
+    "Google model list",
+    `https://generativelanguage.googleapis.com/v1beta/models?key=${apiKey}`,
+    {},
     signal,
-  });
-  if (!res.ok) return [];
-  const data = (await res.json()) as {
-    models?: Array<{ name: string; supportedGenerationMethods?: string[] }>;
-  };
+  );
   return (data.models ?? [])
     .filter((m) => m.supportedGenerationMethods?.includes("generateContent"))
-    .map((m) => m.name.replace("models/", ""))
-    .sort();
+    .map((m) =>
+      describeModel("google", m.name.replace("models/", ""), {
+        displayName: m.displayName,
+        contextWindow: m.inputTokenLimit,
+        maxOutputTokens: m.outputTokenLimit,
+      }),
+    )
+    .sort(byId);
+}
+
+async function fetchOpenAICompatibleModels(
+  baseUrl: string,
+  apiKey: string,
+  headers: Record<string, string>,
+  signal?: AbortSignal,
+): Promise<ModelInfo[]> {
+  if (!baseUrl) {
+    throw new ModelCatalogError("No base URL is configured for the OpenAI-compatible provider.");
+  }
+  // vLLM reports `max_model_len`, several gateways `context_length`.
+  const data = await getJson<{
+    data?: Array<{ id: string; max_model_len?: number; context_length?: number }>;
+  }>(
+    `Model list from ${baseUrl}`,
+    `${baseUrl}/models`,
+    { ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}), ...headers },
+    signal,
+  );
+  return (data.data ?? [])
+    .map((m) =>
+      describeModel("openaiCompatible", m.id, {
+        contextWindow: m.max_model_len ?? m.context_length,
+      }),
+    )
+    .sort(byId);
+}
+
+interface CachedList {
+  fetchedAt: number;
+  models: ModelInfo[];
+}
+
+export interface CatalogResult {
+  models: ModelInfo[];
+  fetchedAt: number;
+  /** Set when the fetch failed and a stale cached list is returned instead. */
+  error?: ModelCatalogError;
+}
+
+/** Per-provider model lists cached in `globalState`. */
+export class ModelCatalog {
+  constructor(private readonly state: vscode.Memento) {}
+
+  private cacheKey(params: FetchModelsParams): string {
+    // Different endpoints serve different models.
+    return params.provider === "openaiCompatible"
+      ? `${params.provider}|${params.baseUrl ?? ""}`
+      : params.provider;
+  }
+
+  private entries(): Record<string, CachedList> {
+    return this.state.get<Record<string, CachedList>>(CACHE_KEY) ?? {};
+  }
+
+  /**
+   * The cached list while it is fresh, otherwise a fetched one. When fetching fails, a
+   * stale cached list is returned with the error; without one the error is thrown.
+   */
+  async list(params: FetchModelsParams, opts: { refresh?: boolean } = {}): Promise<CatalogResult> {
+    const key = this.cacheKey(params);
+    const cached = this.entries()[key];
+    if (cached && !opts.refresh && Date.now() - cached.fetchedAt < CACHE_TTL_MS) {
+      return { models: cached.models, fetchedAt: cached.fetchedAt };
+    }
+
+    try {
+      const models = await fetchModels(params);
+      const entry: CachedList = { fetchedAt: Date.now(), models };
+      await this.state.update(CACHE_KEY, { ...this.entries(), [key]: entry });
+      return entry;
+    } catch (err) {
+      const error =
+        err instanceof ModelCatalogError
+          ? err
+          : new ModelCatalogError(err instanceof Error ? err.message : String(err));
+      if (cached) return { models: cached.models, fetchedAt: cached.fetchedAt, error };
+      throw error;
+    }
+  }
 }
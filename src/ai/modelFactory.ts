@@ -2,7 +2,8 @@ import type { LanguageModelV2 } from "@ai-sdk/provider";
 import { createAnthropic } from "@ai-sdk/anthropic";
 import { createGoogleGenerativeAI } from "@ai-sdk/google";
 import { createOpenAI } from "@ai-sdk/openai";
-import { getApiKeyForProvider, getSettings, type AIProvider } from "../config/settings";
+import { apiKeyOptional, type AIProvider, type ExtensionSettings } from "../config/settingsCore";
+import type { ReviewHost } from "../host/reviewHost";
 
 export interface ResolvedModel {
   provider: AIProvider;
@@ -10,7 +11,7 @@ export interface ResolvedModel {
   model: LanguageModelV2;
 }
 
-function providerLabel(provider: AIProvider): string {
+export function providerLabel(provider: AIProvider): string {
   switch (provider) {
     case "openai":
       return "OpenAI";
@@ -18,20 +19,35 @@ function providerLabel(provider: AIProvider): string {
       return "Anthropic";
     case "google":
       return "Google";
+    case "openaiCompatible":
+      return "OpenAI-compatible";
+    case "vscodeLm":
+      return "VS Code Language Model";
   }
 }
 
-export async function resolveModel(): Promise<ResolvedModel> {
-  const settings = getSettings();
-  const apiKey = getApiKeyForProvider(settings.provider);
+export async function resolveModel(host: ReviewHost): Promise<ResolvedModel> {
+  const settings = host.getSettings();
+  if (settings.provider === "vscodeLm") {
+    if (!host.hostModel) {
+      throw new Error("The vscodeLm provider is only available inside VS Code.");
+    }
+    return {
+      provider: settings.provider,
+      modelId: settings.model,
+      model: await host.hostModel(settings.model),
+    };
+  }
 
-  if (!apiKey) {
+  const apiKey = await host.getApiKey(settings.provider);
+
+  if (!apiKey && !apiKeyOptional(settings.provider)) {
     throw new Error(
-      `${providerLabel(settings.provider)} API key is not set. Configure it in VS Code Settings: “Code Review”.`,
+      `${providerLabel(settings.provider)} API key is not set. ${host.apiKeyHint(settings.provider)}`,
     );
   }
 
-  const model = resolveLanguageModel(settings.provider, apiKey, settings.model);
+  const model = resolveLanguageModel(settings, apiKey ?? "");
 
   return {
     provider: settings.provider,
@@ -40,12 +56,9 @@ export async function resolveModel(): Promise<ResolvedModel> {
   };
 }
 
-function resolveLanguageModel(
-  provider: AIProvider,
-  apiKey: string,
-  modelId: string,
-): LanguageModelV2 {
-  switch (provider) {
+function resolveLanguageModel(settings: ExtensionSettings, apiKey: string): LanguageModelV2 {
+  const modelId = settings.model;
+  switch (settings.provider) {
     case "openai": {
       const openai = createOpenAI({ apiKey });
       type OpenAIResponsesModelId = Parameters<typeof openai.responses>[0];
@@ -63,5 +76,15 @@ function resolveLanguageModel(
       return createGoogleGenerativeAI({ apiKey })(
         modelId as unknown as GoogleModelId,
       ) as unknown as LanguageModelV2;
+    case "openaiCompatible":
+      // Local servers (Ollama, LM Studio, vLLM) implement Chat Completions, not Responses.
+      return createOpenAI({
+        name: "openai-compatible",
+        baseURL: settings.openaiCompatibleBaseUrl,
+        apiKey,
+        headers: settings.openaiCompatibleHeaders,
+      }).chat(modelId) as unknown as LanguageModelV2;
+    case "vscodeLm":
+      throw new Error("VS Code language models are resolved by the host.");
   }
 }
@@ -0,0 +1,198 @@
+import type { AIProvider } from "../config/settingsCore";
+
+/** USD per million tokens. */
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+export interface ModelInfo {
+  id: string;
+  provider: AIProvider;
+  displayName?: string;
+  /** Maximum input tokens. */
+  contextWindow?: number;
+  maxOutputTokens?: number;
+  /** Undefined when unknown: only an explicit `false` triggers a warning. */
+  supportsTools?: boolean;
+  supportsStructuredOutput?: boolean;
+  pricing?: ModelPricing;
+}
+
+type KnownModel = Omit<ModelInfo, "id" | "provider" | "displayName">;
+
+/**
+ * Bundled metadata for well-known models. An entry matches its exact id and the id's dated
+ * snapshots and aliases (`claude-sonnet-4-20250514`, `gpt-4o-2024-08-06`,
+ * `claude-3-5-sonnet-latest`), never a longer id: `gpt-5-pro` is not priced as `gpt-5`.
+ * Dots and dashes match each other, so `claude-opus-4.5` finds `claude-opus-4-5`. Prices
+ * are the providers' list prices; update them here when they change.
+ */
+const KNOWN_MODELS: Partial<Record<AIProvider, Record<string, KnownModel>>> = {
+  anthropic: {
+    "claude-opus-4-5": { contextWindow: 200_000, pricing: { input: 5, output: 25 } },
+    "claude-opus-4-1": { contextWindow: 200_000, pricing: { input: 15, output: 75 } },
+    "claude-opus-4-0": { contextWindow: 200_000, pricing: { input: 15, output: 75 } },
+    "claude-opus-4": { contextWindow: 200_000, pricing: { input: 15, output: 75 } },
+    "claude-sonnet-4-5": { contextWindow: 200_000, pricing: { input: 3, output: 15 } },
+    "claude-sonnet-4-0": { contextWindow: 200_000, pricing: { input: 3, output: 15 } },
+    "claude-sonnet-4": { contextWindow: 200_000, pricing: { input: 3, output: 15 } },
+    "claude-haiku-4-5": { contextWindow: 200_000, pricing: { input: 1, output: 5 } },
+    "claude-3-7-sonnet": { contextWindow: 200_000, pricing: { input: 3, output: 15 } },
+    "claude-3-5-sonnet": { contextWindow: 200_000, pricing: { input: 3, output: 15 } },
+    "claude-3-5-haiku": { contextWindow: 200_000, pricing: { input: 0.8, output: 4 } },
+    "claude-3-opus": { contextWindow: 200_000, pricing: { input: 15, output: 75 } },
+    "claude-3-haiku": { contextWindow: 200_000, pricing: { input: 0.25, output: 1.25 } },
+  },
+  openai: {
+    "gpt-5-pro": { contextWindow: 400_000, pricing: { input: 15, output: 120 } },
+    "gpt-5-codex": { contextWindow: 400_000, pricing: { input: 1.25, output: 10 } },
+    "gpt-5-chat": { contextWindow: 128_000, pricing: { input: 1.25, output: 10 } },
+    "gpt-5-nano": { contextWindow: 400_000, pricing: { input: 0.05, output: 0.4 } },
+    "gpt-5-mini": { contextWindow: 400_000, pricing: { input: 0.25, output: 2 } },
+    "gpt-5": { contextWindow: 400_000, pricing: { input: 1.25, output: 10 } },
+    "gpt-4.1-nano": { contextWindow: 1_047_576, pricing: { input: 0.1, output: 0.4 } },
+    "gpt-4.1-mini": { contextWindow: 1_047_576, pricing: { input: 0.4, output: 1.6 } },
+    "gpt-4.1": { contextWindow: 1_047_576, pricing: { input: 2, output: 8 } },
+    "gpt-4o-mini": { contextWindow: 128_000, pricing: { input: 0.15, output: 0.6 } },
+    "gpt-4o": { contextWindow: 128_000, pricing: { input: 2.5, output: 10 } },
+    "gpt-4-turbo": { contextWindow: 128_000, pricing: { input: 10, output: 30 } },
+    "gpt-3.5-turbo": {
+      contextWindow: 16_385,
+      supportsStructuredOutput: false,
+      pricing: { input: 0.5, output: 1.5 },
+    },
+    "o4-mini": { contextWindow: 200_000, pricing: { input: 1.1, output: 4.4 } },
+    "o3-pro": { contextWindow: 200_000, pricing: { input: 20, output: 80 } },
+    "o3-mini": { contextWindow: 200_000, pricing: { input: 1.1, output: 4.4 } },
+    o3: { contextWindow: 200_000, pricing: { input: 2, output: 8 } },
+    "o1-pro": { contextWindow: 200_000, pricing: { input: 150, output: 600 } },
+    "o1-mini": {
+      contextWindow: 128_000,
+      supportsTools: false,
+      pricing: { input: 1.1, output: 4.4 },
+    },
+    o1: { contextWindow: 200_000, pricing: { input: 15, output: 60 } },
+  },
+  google: {
+    "gemini-2.5-pro": { contextWindow: 1_048_576, pricing: { input: 1.25, output: 10 } },
+    "gemini-2.5-flash-lite": { contextWindow: 1_048_576, pricing: { input: 0.1, output: 0.4 } },
+    "gemini-2.5-flash": { contextWindow: 1_048_576, pricing: { input: 0.3, output: 2.5 } },
+    "gemini-2.0-flash-lite": { contextWindow: 1_048_576, pricing: { input: 0.075, output: 0.3 } },
+    "gemini-2.0-flash": { contextWindow: 1_048_576, pricing: { input: 0.1, output: 0.4 } },
+    "gemini-1.5-pro": { contextWindow: 2_097_152, pricing: { input: 1.25, output: 5 } },
+    "gemini-1.5-flash": { contextWindow: 1_048_576, pricing: { input: 0.075, output: 0.3 } },
+  },
+};
+
+/**
+ * Capabilities shared by every model whose id starts with the key (longest prefix wins).
+ * No prices here: a variant of a family can cost many times the base model.
+ */
+const MODEL_FAMILIES: Partial<Record<AIProvider, Record<string, KnownModel>>> = {
+  openai: {
+    "gpt-3.5-turbo": { supportsStructuredOutput: false },
+    "o1-mini": { supportsTools: false },
+    // Not chat models: listed by /v1/models but unusable for a review.
+    "text-embedding": { supportsTools: false, supportsStructuredOutput: false },
+    "dall-e": { supportsTools: false, supportsStructuredOutput: false },
+    "gpt-image": { supportsTools: false, supportsStructuredOutput: false },
+    whisper: { supportsTools: false, supportsStructuredOutput: false },
+    tts: { supportsTools: false, supportsStructuredOutput: false },
+    "omni-moderation": { supportsTools: false, supportsStructuredOutput: false },
+    "text-moderation": { supportsTools: false, supportsStructuredOutput: false },
+    davinci: { supportsTools: false, supportsStructuredOutput: false },
+    babbage: { supportsTools: false, supportsStructuredOutput: false },
+  },
+  google: {
+    gemma: { supportsTools: false, supportsStructuredOutput: false },
+  },
+};
+
+// Version separators vary between providers and users: "4.5" and "4-5" are the same model.
+function normalizeId(id: string): string {
+  return id.toLowerCase().replaceAll(".", "-");
+}
+
+// What may follow a known id: a snapshot date (20250514, 2024-08-06, 0125), a version
+// (001) or "latest".
+const SNAPSHOT_SUFFIX = /^-(?:latest|\d{3}|\d{4}|\d{8}|\d{4}-\d{2}-\d{2})$/;
+
+function knownModel(provider: AIProvider, modelId: string): KnownModel | undefined {
+  const id = normalizeId(modelId);
+  const exact = Object.entries(KNOWN_MODELS[provider] ?? {}).find(([key]) => {
+    const k = normalizeId(key);
+    return id === k || (id.startsWith(k) && SNAPSHOT_SUFFIX.test(id.slice(k.length)));
+  });
+  if (exact) return exact[1];
+
+  let best: string | undefined;
+  const families = MODEL_FAMILIES[provider] ?? {};
+  for (const prefix of Object.keys(families)) {
+    if (id.startsWith(normalizeId(prefix)) && (!best || prefix.length > best.length)) {
+      best = prefix;
+    }
+  }
+  return best ? families[best] : undefined;
+}
+
+/**
+ * Metadata for a model: what the provider's API reported (`fromApi`) wins, gaps are filled
+ * from the bundled table. The three hosted providers support tools and structured output
+ * unless the table says otherwise.
+ */
+export function describeModel(
+  provider: AIProvider,
+  modelId: string,
+  fromApi: Partial<ModelInfo> = {},
+): ModelInfo {
+  const known = knownModel(provider, modelId) ?? {};
+  const hosted = provider === "openai" || provider === "anthropic" || provider === "google";
+  return {
+    id: modelId,
+    provider,
+    displayName: fromApi.displayName,
+    contextWindow: fromApi.contextWindow ?? known.contextWindow,
+    maxOutputTokens: fromApi.maxOutputTokens ?? known.maxOutputTokens,
+    supportsTools: fromApi.supportsTools ?? known.supportsTools ?? (hosted ? true : undefined),
+    supportsStructuredOutput:
+      fromApi.supportsStructuredOutput ??
+      known.supportsStructuredOutput ??
+      (hosted ? true : undefined),
+    pricing: fromApi.pricing ?? known.pricing,
+  };
+}
+
+/** What the review loses with this model; empty when nothing is known to be missing. */
+export function capabilityWarnings(info: ModelInfo): string[] {
+  const warnings: string[] = [];
+  if (info.supportsTools === false) {
+    warnings.push("no tool calling: the review cannot read files, search or load rules");
+  }
+  if (info.supportsStructuredOutput === false) {
+    warnings.push("no structured output: findings and fixes are parsed from free text");
+  }
+  return warnings;
+}
+
+function formatTokens(n: number): string {
+  return n >= 1_000_000 ? `${+(n / 1_000_000).toFixed(1)}M` : `${Math.round(n / 1000)}k`;
+}
+
+function formatPrice(usd: number): string {
+  return `$${+usd.toFixed(3)}`;
+}
+
+/** One-line summary for pickers, e.g. "200k context · tools · $3/$15 per 1M tokens". */
+export function describeModelInfo(info: ModelInfo): string {
+  const parts: string[] = [];
+  if (info.contextWindow) parts.push(`${formatTokens(info.contextWindow)} context`);
+  if (info.supportsTools) parts.push("tools");
+  if (info.supportsStructuredOutput) parts.push("structured output");
+  if (info.pricing) {
+    parts.push(
+      `${formatPrice(info.pricing.input)}/${formatPrice(info.pricing.output)} per 1M tokens`,
+    );
+  }
+  return parts.join(" · ");
+}
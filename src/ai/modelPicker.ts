@@ -0,0 +1,164 @@
+import * as vscode from "vscode";
+import {
+  apiKeyOptional,
+  getSettings,
+  usesApiKey,
+  type ExtensionSettings,
+} from "../config/settings";
+import type { ApiKeyStore } from "../secrets/apiKeyStore";
+import type { ModelCatalog, ModelInfo } from "./modelCatalog";
+import { providerLabel } from "./modelFactory";
+import { capabilityWarnings, describeModelInfo } from "./modelMetadata";
+import { listChatModels } from "./vscodeLmModel";
+
+interface ModelPickItem extends vscode.QuickPickItem {
+  model?: ModelInfo;
+}
+
+const REFRESH_BUTTON: vscode.QuickInputButton = {
+  iconPath: new vscode.ThemeIcon("refresh"),
+  tooltip: "Refresh model list",
+};
+
+// Fetching a model list should never keep the picker busy for long.
+const FETCH_TIMEOUT_MS = 15000;
+
+async function providerModels(
+  catalog: ModelCatalog,
+  keys: ApiKeyStore,
+  settings: ExtensionSettings,
+  refresh: boolean,
+  output: vscode.OutputChannel,
+): Promise<{ items: ModelPickItem[]; problem?: string }> {
+  const { provider } = settings;
+  if (!usesApiKey(provider)) return { items: [] };
+  const apiKey = await keys.resolve(provider);
+  if (!apiKey && !apiKeyOptional(provider)) {
+    return { items: [], problem: `API key is not set for ${providerLabel(provider)}.` };
+  }
+
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+  try {
+    const result = await catalog.list(
+      {
+        provider,
+        apiKey: apiKey ?? "",
+        baseUrl: settings.openaiCompatibleBaseUrl,
+        headers: settings.openaiCompatibleHeaders,
+        abortSignal: controller.signal,
+      },
+      { refresh },
+    );
+    let problem: string | undefined;
+    if (result.error) {
+      output.appendLine(`[warn] ${result.error.message}`);
+      problem = `Showing the list cached on ${new Date(result.fetchedAt).toLocaleString()}: ${result.error.message}`;
+    }
+    return { items: toItems(providerLabel(provider), result.models), problem };
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    output.appendLine(`[error] ${msg}`);
+    return { items: [], problem: msg };
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+function toItems(group: string, models: ModelInfo[]): ModelPickItem[] {
+  if (models.length === 0) return [];
+  return [
+    { label: group, kind: vscode.QuickPickItemKind.Separator },
+    ...models.map((model) => {
+      const warnings = capabilityWarnings(model);
+      return {
+        model,
+        label: model.displayName ?? model.id,
+        description: [model.displayName ? model.id : "", describeModelInfo(model)]
+          .filter(Boolean)
+          .join(" · "),
+        detail: warnings.length > 0 ? `$(warning) ${warnings.join("; ")}` : undefined,
+      };
+    }),
+  ];
+}
+
+async function languageModelItems(): Promise<ModelPickItem[]> {
+  const models = (await listChatModels()).map(
+    (m): ModelInfo => ({
+      id: m.id,
+      provider: "vscodeLm",
+      displayName: m.name,
+      contextWindow: m.maxInputTokens,
+      supportsTools: true,
+    }),
+  );
+  return toItems(providerLabel("vscodeLm"), models);
+}
+
+/**
+ * Let the user pick a model of the configured provider or one of VS Code's language models.
+ * Lists come from `catalog` (cached per provider) and show context window, capabilities
+ * and pricing; the title-bar button refetches them. Choosing a model without tool calling
+ * or structured output needs a confirmation.
+ *
+ * Returns undefined when dismissed.
+ */
+export async function pickModel(
+  catalog: ModelCatalog,
+  keys: ApiKeyStore,
+  output: vscode.OutputChannel,
+): Promise<ModelInfo | undefined> {
+  const settings = getSettings();
+  const qp = vscode.window.createQuickPick<ModelPickItem>();
+  qp.title = "Pick Model";
+  qp.placeholder = "Select a model";
+  qp.matchOnDescription = true;
+  qp.ignoreFocusOut = true;
+  qp.buttons = [REFRESH_BUTTON];
+
+  const load = async (refresh: boolean) => {
+    qp.busy = true;
+    qp.enabled = false;
+    const [own, lm] = await Promise.all([
+      providerModels(catalog, keys, settings, refresh, output),
+      languageModelItems(),
+    ]);
+    qp.items = [...own.items, ...lm];
+    qp.placeholder =
+      own.problem ??
+      (qp.items.length > 0 ? "Select a model" : "No models found for the selected provider.");
+    qp.busy = false;
+    qp.enabled = true;
+  };
+
+  const picked = await new Promise<ModelInfo | undefined>((resolve) => {
+    let settled = false;
+    qp.onDidTriggerButton(() => void load(true));
+    qp.onDidAccept(() => {
+      const model = qp.selectedItems[0]?.model;
+      if (!model) return;
+      settled = true;
+      resolve(model);
+      qp.hide();
+    });
+    qp.onDidHide(() => {
+      if (!settled) resolve(undefined);
+      qp.dispose();
+    });
+    qp.show();
+    void load(false);
+  });
+  if (!picked) return undefined;
+
+  const warnings = capabilityWarnings(picked);
+  if (warnings.length > 0) {
+    const choice = await vscode.window.showWarningMessage(
+      `${picked.displayName ?? picked.id} lacks features the review relies on.`,
+      { modal: true, detail: warnings.map((w) => `• ${w}`).join("\n") },
+      "Use Anyway",
+    );
+    if (choice !== "Use Anyway") return undefined;
+  }
+  return picked;
+}
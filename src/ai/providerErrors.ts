@@ -0,0 +1,119 @@
+import { APICallError, RetryError } from "ai";
+
+export type ProviderErrorKind =
+  | "rateLimit"
+  | "overloaded"
+  | "auth"
+  | "contextLength"
+  | "network"
+  | "other";
+
+export interface ClassifiedError {
+  kind: ProviderErrorKind;
+  /** Worth retrying the same request after a pause. */
+  retryable: boolean;
+  status?: number;
+  /** From `retry-after-ms` / `retry-after` response headers. */
+  retryAfterMs?: number;
+  message: string;
+}
+
+/** A provider request that failed after retries, labeled with what went wrong. */
+export class ProviderError extends Error {
+  constructor(
+    message: string,
+    readonly kind: ProviderErrorKind,
+    readonly status?: number,
+  ) {
+    super(message);
+    this.name = "ProviderError";
+  }
+}
+
+const CONTEXT_LENGTH_PATTERN =
+  /context[ _-]?(length|window)|maximum context|prompt is too long|too many (input )?tokens|input is too long|request too large/i;
+const NETWORK_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ETIMEDOUT",
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "EPIPE",
+  "UND_ERR_SOCKET",
+  "UND_ERR_CONNECT_TIMEOUT",
+]);
+
+function retryAfterMs(headers: Record<string, string> | undefined): number | undefined {
+  if (!headers) return undefined;
+  const get = (name: string) =>
+    Object.entries(headers).find(([k]) => k.toLowerCase() === name)?.[1];
+  const ms = Number(get("retry-after-ms"));
+  if (Number.isFinite(ms) && ms >= 0) return ms;
+  const value = get("retry-after");
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds) && seconds >= 0) return seconds * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function errorCode(err: unknown): string | undefined {
+  for (let e = err, depth = 0; e instanceof Error && depth < 5; e = e.cause, depth++) {
+    const code = (e as { code?: unknown }).code;
+    if (typeof code === "string") return code;
+  }
+  return undefined;
+}
+
+/** What kind of provider failure `err` is, and whether the same request may succeed later. */
+export function classifyProviderError(err: unknown): ClassifiedError {
+  // The SDK's own retries are disabled, but unwrap in case a caller left them on.
+  if (RetryError.isInstance(err)) return classifyProviderError(err.lastError);
+
+  const message = err instanceof Error ? err.message : String(err);
+  if (APICallError.isInstance(err)) {
+    const status = err.statusCode;
+    const detail = `${message} ${err.responseBody ?? ""}`;
+    const base = { status, retryAfterMs: retryAfterMs(err.responseHeaders), message };
+    if (CONTEXT_LENGTH_PATTERN.test(detail)) {
+      return { ...base, kind: "contextLength", retryable: false };
+    }
+    if (status === 401 || status === 403) return { ...base, kind: "auth", retryable: false };
+    if (status === 429) {
+      // An exhausted quota does not recover by waiting.
+      const quota = /insufficient_quota|billing|credit balance/i.test(detail);
+      return { ...base, kind: "rateLimit", retryable: !quota };
+    }
+    // 529 is Anthropic's "overloaded".
+    if (status === 408 || status === 529 || (status !== undefined && status >= 500)) {
+      return { ...base, kind: "overloaded", retryable: true };
+    }
+    if (status === undefined) return { ...base, kind: "network", retryable: err.isRetryable };
+    return { ...base, kind: "other", retryable: false };
+  }
+
+  const code = errorCode(err);
+  if ((code && NETWORK_CODES.has(code)) || /fetch failed|network|socket hang up/i.test(message)) {
+    return { kind: "network", retryable: true, message };
+  }
+  return { kind: "other", retryable: false, message };
+}
+
+/** Short description for logs and error messages, e.g. "rate limited (429)". */
+export function describeProviderError(c: ClassifiedError): string {
+  const status = c.status ? ` (${c.status})` : "";
+  switch (c.kind) {
+    case "rateLimit":
+      return `rate limited${status}`;
+    case "overloaded":
+      return `provider overloaded or unavailable${status}`;
+    case "auth":
+      return `authentication failed${status}`;
+    case "contextLength":
+      return `request exceeds the model's context window${status}`;
+    case "network":
+      return "network error";
+    case "other":
+      return `request failed${status}`;
+  }
+}
@@ -0,0 +1,61 @@
+import { classifyProviderError, type ClassifiedError } from "./providerErrors";
+
+const BASE_DELAY_MS = 1000;
+const MAX_BACKOFF_MS = 30_000;
+// A longer `retry-after` means the limit will not clear soon: give up and let the caller
+// fall back to another model instead of stalling the review.
+const MAX_RETRY_AFTER_MS = 60_000;
+
+export interface RetryOptions {
+  /** Retries after the first attempt. */
+  maxRetries: number;
+  abortSignal?: AbortSignal;
+  /** Called before waiting for attempt `attempt` (1-based count of retries). */
+  onRetry?: (info: { attempt: number; delayMs: number; error: ClassifiedError }) => void;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    signal?.throwIfAborted();
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+function backoffDelay(attempt: number, error: ClassifiedError): number | undefined {
+  if (error.retryAfterMs !== undefined) {
+    return error.retryAfterMs <= MAX_RETRY_AFTER_MS ? error.retryAfterMs : undefined;
+  }
+  // Exponential with jitter, so parallel batches do not retry in lockstep.
+  const exp = Math.min(MAX_BACKOFF_MS, BASE_DELAY_MS * 2 ** (attempt - 1));
+  return Math.round(exp / 2 + Math.random() * (exp / 2));
+}
+
+/**
+ * Run `task`, retrying rate limits, overloads and network errors with exponential backoff
+ * (or the provider's `retry-after`). Other errors, and the last retryable one, are thrown
+ * unchanged.
+ */
+export async function withRetries<T>(task: () => Promise<T>, opts: RetryOptions): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await task();
+    } catch (err) {
+      if (opts.abortSignal?.aborted) throw err;
+      if (err instanceof Error && err.name === "AbortError") throw err;
+      const error = classifyProviderError(err);
+      const delayMs =
+        error.retryable && attempt <= opts.maxRetries ? backoffDelay(attempt, error) : undefined;
+      if (delayMs === undefined) throw err;
+      opts.onRetry?.({ attempt, delayMs, error });
+      await sleep(delayMs, opts.abortSignal);
+    }
+  }
+}
@@ -0,0 +1,309 @@
+import type {
+  LanguageModelV2,
+  LanguageModelV2CallOptions,
+  LanguageModelV2CallWarning,
+  LanguageModelV2Content,
+  LanguageModelV2FinishReason,
+  LanguageModelV2Prompt,
+  LanguageModelV2StreamPart,
+  LanguageModelV2ToolResultOutput,
+  LanguageModelV2Usage,
+} from "@ai-sdk/provider";
+import * as vscode from "vscode";
+
+const JUSTIFICATION = "Code Review uses this model to review your git changes.";
+
+// VS Code reports no token usage for `vscode.lm` requests.
+const NO_USAGE: LanguageModelV2Usage = {
+  inputTokens: undefined,
+  outputTokens: undefined,
+  totalTokens: undefined,
+};
+
+/** `vscode.lm` with tool calling needs VS Code 1.95; older hosts lack the API entirely. */
+export function isLanguageModelApiAvailable(): boolean {
+  return (
+    typeof vscode.lm?.selectChatModels === "function" &&
+    typeof vscode.LanguageModelToolCallPart === "function"
+  );
+}
+
+/** Chat models contributed by other extensions (e.g. GitHub Copilot). */
+export async function listChatModels(): Promise<vscode.LanguageModelChat[]> {
+  if (!isLanguageModelApiAvailable()) return [];
+  return vscode.lm.selectChatModels();
+}
+
+export async function createVscodeLmModel(modelId: string): Promise<LanguageModelV2> {
+  if (!isLanguageModelApiAvailable()) {
+    throw new Error("The VS Code Language Model API needs VS Code 1.95 or newer.");
+  }
+  const [chat] = await vscode.lm.selectChatModels({ id: modelId });
+  if (!chat) {
+    throw new Error(
+      `VS Code language model "${modelId}" is not available. Run “Code Review: Pick Model” to choose one.`,
+    );
+  }
+  return new VscodeLmLanguageModel(chat);
+}
+
+function toolOutputText(output: LanguageModelV2ToolResultOutput): string {
+  switch (output.type) {
+    case "text":
+    case "error-text":
+      return output.value;
+    case "json":
+    case "error-json":
+      return JSON.stringify(output.value);
+    case "content":
+      return output.value.map((p) => (p.type === "text" ? p.text : `[${p.mediaType}]`)).join("\n");
+  }
+}
+
+// Models without a JSON mode tend to wrap the object in a markdown fence.
+function stripJsonFence(text: string): string {
+  const m = /^\s*```(?:json)?\s*\n([\s\S]*?)\n\s*```\s*$/.exec(text);
+  return m ? m[1] : text;
+}
+
+type AssistantPart = vscode.LanguageModelTextPart | vscode.LanguageModelToolCallPart;
+
+interface ChatRequest {
+  messages: vscode.LanguageModelChatMessage[];
+  options: vscode.LanguageModelChatRequestOptions;
+  warnings: LanguageModelV2CallWarning[];
+  json: boolean;
+}
+
+/**
+ * Adapts a `vscode.lm` chat model to the AI SDK's `LanguageModelV2`, so `runReview` can use
+ * it like any other provider, tool calls included. There is no system role or JSON mode:
+ * system text becomes the first user message and a requested JSON schema is appended to
+ * the prompt.
+ */
+class VscodeLmLanguageModel implements LanguageModelV2 {
+  readonly specificationVersion = "v2";
+  readonly provider = "vscode-lm";
+  readonly supportedUrls = {};
+
+  constructor(private readonly chat: vscode.LanguageModelChat) {}
+
+  get modelId(): string {
+    return this.chat.id;
+  }
+
+  private toRequest(options: LanguageModelV2CallOptions): ChatRequest {
+    const warnings: LanguageModelV2CallWarning[] = [];
+    for (const setting of [
+      "temperature",
+      "topP",
+      "topK",
+      "maxOutputTokens",
+      "stopSequences",
+      "presencePenalty",
+      "frequencyPenalty",
+      "seed",
+    ] as const) {
+      if (options[setting] !== undefined) warnings.push({ type: "unsupported-setting", setting });
+    }
+
+    const messages = this.toMessages(options.prompt, warnings);
+    const json = options.responseFormat?.type === "json";
+    if (options.responseFormat?.type === "json") {
+      const schema = options.responseFormat.schema
+        ? `\n\nJSON schema:\n${JSON.stringify(options.responseFormat.schema)}`
+        : "";
+      messages.push(
+        vscode.LanguageModelChatMessage.User(
+          `Respond with a single JSON object only, without markdown fences or commentary.${schema}`,
+        ),
+      );
+    }
+
+    const requestOptions: vscode.LanguageModelChatRequestOptions = {
+      justification: JUSTIFICATION,
+    };
+    const choice = options.toolChoice ?? { type: "auto" };
+    if (options.tools && choice.type !== "none") {
+      const tools: vscode.LanguageModelChatTool[] = [];
+      for (const tool of options.tools) {
+        if (tool.type !== "function") {
+          warnings.push({ type: "unsupported-tool", tool });
+          continue;
+        }
+        if (choice.type === "tool" && tool.name !== choice.toolName) continue;
+        tools.push({
+          name: tool.name,
+          description: tool.description ?? "",
+          inputSchema: tool.inputSchema,
+        });
+      }
+      requestOptions.tools = tools;
+      requestOptions.toolMode =
+        choice.type === "auto"
+          ? vscode.LanguageModelChatToolMode.Auto
+          : vscode.LanguageModelChatToolMode.Required;
+    }
+
+    return { messages, options: requestOptions, warnings, json };
+  }
+
+  private toMessages(
+    prompt: LanguageModelV2Prompt,
+    warnings: LanguageModelV2CallWarning[],
+  ): vscode.LanguageModelChatMessage[] {
+    const messages: vscode.LanguageModelChatMessage[] = [];
+    let skippedFiles = false;
+
+    for (const message of prompt) {
+      switch (message.role) {
+        case "system":
+          messages.push(vscode.LanguageModelChatMessage.User(message.content));
+          break;
+        case "user": {
+          const parts = message.content.flatMap((p) => {
+            if (p.type === "text") return [new vscode.LanguageModelTextPart(p.text)];
+            skippedFiles = true;
+            return [];
+          });
+          if (parts.length > 0) messages.push(vscode.LanguageModelChatMessage.User(parts));
+          break;
+        }
+        case "assistant": {
+          const parts = message.content.flatMap((p): AssistantPart[] => {
+            if (p.type === "text") return [new vscode.LanguageModelTextPart(p.text)];
+            if (p.type === "tool-call") {
+              const input = typeof p.input === "object" && p.input !== null ? p.input : {};
+              return [new vscode.LanguageModelToolCallPart(p.toolCallId, p.toolName, input)];
+            }
+            return [];
+          });
+          if (parts.length > 0) messages.push(vscode.LanguageModelChatMessage.Assistant(parts));
+          break;
+        }
+        case "tool":
+          messages.push(
+            vscode.LanguageModelChatMessage.User(
+              message.content.map(
+                (r) =>
+                  new vscode.LanguageModelToolResultPart(r.toolCallId, [
+                    new vscode.LanguageModelTextPart(toolOutputText(r.output)),
+                  ]),
+              ),
+            ),
+          );
+          break;
+      }
+    }
+
+    if (skippedFiles) {
+      warnings.push({ type: "other", message: "File parts are not supported and were dropped." });
+    }
+    return messages;
+  }
+
+  /**
+   * Send a request and consume its response with `read`. Aborting cancels the request until
+   * the response has been read; the listener and the token are released afterwards.
+   */
+  private async send<T>(
+    request: ChatRequest,
+    abortSignal: AbortSignal | undefined,
+    read: (response: vscode.LanguageModelChatResponse) => Promise<T>,
+  ): Promise<T> {
+    abortSignal?.throwIfAborted();
+    const cts = new vscode.CancellationTokenSource();
+    const cancel = () => cts.cancel();
+    abortSignal?.addEventListener("abort", cancel, { once: true });
+    try {
+      return await read(await this.chat.sendRequest(request.messages, request.options, cts.token));
+    } finally {
+      abortSignal?.removeEventListener("abort", cancel);
+      cts.dispose();
+    }
+  }
+
+  async doGenerate(options: LanguageModelV2CallOptions) {
+    const request = this.toRequest(options);
+
+    let text = "";
+    const toolCalls: LanguageModelV2Content[] = [];
+    await this.send(request, options.abortSignal, async (response) => {
+      for await (const part of response.stream) {
+        if (part instanceof vscode.LanguageModelTextPart) {
+          text += part.value;
+        } else if (part instanceof vscode.LanguageModelToolCallPart) {
+          toolCalls.push({
+            type: "tool-call",
+            toolCallId: part.callId,
+            toolName: part.name,
+            input: JSON.stringify(part.input),
+          });
+        }
+      }
+    });
+
+    const content: LanguageModelV2Content[] = [];
+    if (text) content.push({ type: "text", text: request.json ? stripJsonFence(text) : text });
+    content.push(...toolCalls);
+    const finishReason: LanguageModelV2FinishReason = toolCalls.length > 0 ? "tool-calls" : "stop";
+
+    return { content, finishReason, usage: NO_USAGE, warnings: request.warnings };
+  }
+
+  async doStream(options: LanguageModelV2CallOptions) {
+    const request = this.toRequest(options);
+    options.abortSignal?.throwIfAborted();
+
+    // The request is sent as the stream starts, so its failures arrive as an error part.
+    const stream = new ReadableStream<LanguageModelV2StreamPart>({
+      start: async (controller) => {
+        controller.enqueue({ type: "stream-start", warnings: request.warnings });
+        const textId = "text-0";
+        let textStarted = false;
+        // JSON responses are buffered so a surrounding fence can be removed.
+        let jsonText = "";
+        let hasToolCalls = false;
+        try {
+          await this.send(request, options.abortSignal, async (response) => {
+            for await (const part of response.stream) {
+              if (part instanceof vscode.LanguageModelTextPart) {
+                if (request.json) {
+                  jsonText += part.value;
+                  continue;
+                }
+                if (!textStarted) controller.enqueue({ type: "text-start", id: textId });
+                textStarted = true;
+                controller.enqueue({ type: "text-delta", id: textId, delta: part.value });
+              } else if (part instanceof vscode.LanguageModelToolCallPart) {
+                hasToolCalls = true;
+                controller.enqueue({
+                  type: "tool-call",
+                  toolCallId: part.callId,
+                  toolName: part.name,
+                  input: JSON.stringify(part.input),
+                });
+              }
+            }
+          });
+          if (jsonText) {
+            controller.enqueue({ type: "text-start", id: textId });
+            controller.enqueue({ type: "text-delta", id: textId, delta: stripJsonFence(jsonText) });
+            textStarted = true;
+          }
+          if (textStarted) controller.enqueue({ type: "text-end", id: textId });
+          controller.enqueue({
+            type: "finish",
+            finishReason: hasToolCalls ? "tool-calls" : "stop",
+            usage: NO_USAGE,
+          });
+        } catch (error) {
+          controller.enqueue({ type: "error", error });
+        }
+        controller.close();
+      },
+    });
+
+    return { stream };
+  }
+}
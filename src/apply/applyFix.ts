@@ -1,23 +1,12 @@
-import * as path from "path";
 import * as vscode from "vscode";
-import type { Fix } from "../schema/reviewOutput";
+import { isInsideRoot, resolveUnderRoot } from "../context/workspaceRoot";
+import type { FileEdit, Fix } from "../schema/reviewOutput";
 
 export interface ApplyFixResult {
   applied: boolean;
   reason?: string;
 }
 
-function getWorkspaceRoot(): vscode.Uri {
-  const root = vscode.workspace.workspaceFolders?.[0]?.uri;
-  if (!root) throw new Error("No workspace folder is open.");
-  return root;
-}
-
-function toAbsoluteUri(workspaceRelativePath: string): vscode.Uri {
-  const root = getWorkspaceRoot();
-  return vscode.Uri.file(path.join(root.fsPath, workspaceRelativePath));
-}
-
 /**
  * Normalize text for comparison: trim trailing whitespace from each line
  * and normalize line endings to \n
@@ -37,11 +26,7 @@ function clamp(n: number, min: number, max: number): number {
 /**
  * Build a range from a character index in the document text
  */
-function buildRangeFromIndex(
-  docText: string,
-  idx: number,
-  snippet: string,
-): vscode.Range {
+function buildRangeFromIndex(docText: string, idx: number, snippet: string): vscode.Range {
   const beforeText = docText.substring(0, idx);
   const lines = beforeText.split(/\r?\n/);
   const startLine = lines.length - 1;
@@ -262,11 +247,15 @@ function findSnippetFuzzyNearLineHint(
 
   // Short snippets are risky to fuzzy-match; demand a high score.
   const minScore =
-    snippetLineCount <= 2 ? 0.95 : snippetLineCount <= 6 ? 0.8 : snippetLineCount <= 25 ? 0.7 : 0.65;
+    snippetLineCount <= 2
+      ? 0.95
+      : snippetLineCount <= 6
+        ? 0.8
+        : snippetLineCount <= 25
+          ? 0.7
+          : 0.65;
 
-  let best:
-    | { startLine: number; endLine: number; score: number; distance: number }
-    | undefined;
+  let best: { startLine: number; endLine: number; score: number; distance: number } | undefined;
 
   for (let line = minLine; line <= maxLine - snippetLineCount + 1; line++) {
     const candidateEndLine = Math.min(line + snippetLineCount - 1, doc.lineCount - 1);
@@ -329,126 +318,220 @@ function hasReplacementAlreadyApplied(
   return normalizeText(windowText).indexOf(normalizedReplacement) !== -1;
 }
 
-export async function applyFix(fix: Fix): Promise<ApplyFixResult> {
-  const uri = toAbsoluteUri(fix.filePath);
+/** A fix resolved against the current files, ready to be applied as one `WorkspaceEdit`. */
+export interface FixPlan {
+  /** Line replacements, located in the current documents; the fix's main edit comes first. */
+  replacements: {
+    uri: vscode.Uri;
+    doc: vscode.TextDocument;
+    range: vscode.Range;
+    text: string;
+  }[];
+  creates: { uri: vscode.Uri; content: string }[];
+  deletes: vscode.Uri[];
+}
 
-  let doc: vscode.TextDocument;
-  try {
-    doc = await vscode.workspace.openTextDocument(uri);
-  } catch {
-    return { applied: false, reason: `Unable to open file: ${fix.filePath}` };
-  }
+export type PlanFixResult = { plan: FixPlan } | { alreadyApplied: true } | { reason: string };
 
-  // Strategy 1: Use expectedOriginalSnippet for content-based matching (preferred)
-  if (fix.expectedOriginalSnippet) {
-    const hint: LineHint = { startLine: fix.startLine, endLine: fix.endLine };
+interface ReplaceEdit {
+  startLine: number;
+  endLine: number;
+  replacement: string;
+  expectedOriginalSnippet: string | null;
+}
 
-    // First try to find near the expected line range (more targeted, avoids wrong matches)
-    let match = findSnippetByLineHint(doc, fix.expectedOriginalSnippet, fix.startLine, fix.endLine);
+/** The fix's main edit followed by its additional edits. */
+function fixEdits(fix: Fix): FileEdit[] {
+  return [
+    {
+      kind: "replace",
+      filePath: fix.filePath,
+      startLine: fix.startLine,
+      endLine: fix.endLine,
+      replacement: fix.replacement,
+      expectedOriginalSnippet: fix.expectedOriginalSnippet,
+    },
+    ...fix.additionalEdits,
+  ];
+}
 
-    // If not found near expected lines, fall back to global search with hint for tolerance
-    if (!match) {
-      match = findSnippetInDocument(doc, fix.expectedOriginalSnippet, hint);
+/**
+ * Where a replace edit goes in `doc`. With `expectedOriginalSnippet`, the snippet is
+ * searched near the expected lines, then in the whole file, then (if `fuzzy`) fuzzily near
+ * the lines; without it, the line numbers are used as they are (less reliable).
+ */
+function locateReplace(
+  doc: vscode.TextDocument,
+  edit: ReplaceEdit,
+  fuzzy: boolean,
+): { range: vscode.Range } | { reason: string } {
+  if (edit.expectedOriginalSnippet) {
+    const hint: LineHint = { startLine: edit.startLine, endLine: edit.endLine };
+    const snippet = edit.expectedOriginalSnippet;
+    let match =
+      findSnippetByLineHint(doc, snippet, edit.startLine, edit.endLine) ??
+      findSnippetInDocument(doc, snippet, hint);
+    // Helps when earlier fixes modified the snippet.
+    if (!match && fuzzy) {
+      match = findSnippetFuzzyNearLineHint(doc, snippet, edit.startLine, edit.endLine);
     }
+    if (match) return { range: match.range };
+    return {
+      reason:
+        "Could not find the original code snippet in the file. The file may have been modified or this fix was already applied. Please re-run the review.",
+    };
+  }
 
-    if (match) {
-      const edit = new vscode.WorkspaceEdit();
-      edit.replace(uri, match.range, fix.replacement);
-      const ok = await vscode.workspace.applyEdit(edit);
+  const start = Math.max(1, edit.startLine);
+  const end = Math.max(start, edit.endLine);
+  if (end > doc.lineCount) {
+    return { reason: `Line range ${start}-${end} exceeds file length (${doc.lineCount} lines).` };
+  }
+  const endLineIdx = Math.min(end - 1, doc.lineCount - 1);
+  return {
+    range: new vscode.Range(
+      new vscode.Position(start - 1, 0),
+      new vscode.Position(endLineIdx, doc.lineAt(endLineIdx).text.length),
+    ),
+  };
+}
 
-      if (!ok) {
-        return { applied: false, reason: "VS Code rejected the edit." };
-      }
+async function fileExists(uri: vscode.Uri): Promise<boolean> {
+  return vscode.workspace.fs.stat(uri).then(
+    () => true,
+    () => false,
+  );
+}
 
-      await vscode.window.showTextDocument(doc, { preview: false });
-      return { applied: true };
+/**
+ * Resolve every edit of a fix against the current files without changing anything. All
+ * paths must be inside `root`, all anchors must be found, files to create must not exist
+ * and files to delete must; the first edit that fails makes the whole fix fail with its
+ * reason.
+ */
+export async function planFix(
+  fix: Fix,
+  root: vscode.Uri,
+  { fuzzy = true }: { fuzzy?: boolean } = {},
+): Promise<PlanFixResult> {
+  const edits = fixEdits(fix);
+  const plan: FixPlan = { replacements: [], creates: [], deletes: [] };
+  const docs = new Map<string, vscode.TextDocument>();
+  const kinds = new Map<string, FileEdit["kind"]>();
+
+  for (const e of edits) {
+    // Paths come from the model; nothing outside the reviewed repository may change.
+    if (!isInsideRoot(root, e.filePath)) {
+      return { reason: `Refusing to edit ${e.filePath}: it is outside the repository.` };
     }
+    const uri = resolveUnderRoot(root, e.filePath);
+    const key = uri.toString();
+    // Several replacements in one file are fine; creating or deleting it as well is not.
+    const previous = kinds.get(key);
+    if (previous && (previous !== "replace" || e.kind !== "replace")) {
+      return {
+        reason: `The fix edits ${e.filePath} in conflicting ways (${previous} and ${e.kind}).`,
+      };
+    }
+    kinds.set(key, e.kind);
 
-    // Fallback: fuzzy match near original line range (helps when earlier fixes modified the snippet)
-    const fuzzy = findSnippetFuzzyNearLineHint(
-      doc,
-      fix.expectedOriginalSnippet,
-      fix.startLine,
-      fix.endLine,
-    );
-
-    if (fuzzy) {
-      const edit = new vscode.WorkspaceEdit();
-      edit.replace(uri, fuzzy.range, fix.replacement);
-      const ok = await vscode.workspace.applyEdit(edit);
-
-      if (!ok) {
-        return { applied: false, reason: "VS Code rejected the edit." };
+    if (e.kind === "create") {
+      if (await fileExists(uri)) {
+        return { reason: `Cannot create ${e.filePath}: the file already exists.` };
       }
-
-      await vscode.window.showTextDocument(doc, { preview: false });
-      return { applied: true };
+      plan.creates.push({ uri, content: e.replacement ?? "" });
+      continue;
     }
-
-    // If the replacement already exists, treat as already applied (common after applying a nearby fix)
-    if (hasReplacementAlreadyApplied(doc, fix.replacement, hint)) {
-      return { applied: true, reason: "Fix appears to already be applied." };
+    if (e.kind === "delete") {
+      if (!(await fileExists(uri))) {
+        return { reason: `Cannot delete ${e.filePath}: the file does not exist.` };
+      }
+      plan.deletes.push(uri);
+      continue;
     }
 
-    return {
-      applied: false,
-      reason:
-        "Could not find the original code snippet in the file. The file may have been modified or this fix was already applied. Please re-run the review.",
+    let doc = docs.get(key);
+    if (!doc) {
+      try {
+        doc = await vscode.workspace.openTextDocument(uri);
+      } catch {
+        return { reason: `Unable to open file: ${e.filePath}` };
+      }
+      docs.set(key, doc);
+    }
+    // `FileEditSchema` guarantees lines and replacement for replace edits.
+    const replace: ReplaceEdit = {
+      startLine: e.startLine ?? 1,
+      endLine: e.endLine ?? e.startLine ?? 1,
+      replacement: e.replacement ?? "",
+      expectedOriginalSnippet: e.expectedOriginalSnippet,
     };
+    const where = `${e.filePath}:${replace.startLine}-${replace.endLine}`;
+    const located = locateReplace(doc, replace, fuzzy);
+    if ("reason" in located) {
+      // Common after applying a nearby fix; only judged for single-edit fixes.
+      const hint: LineHint = { startLine: replace.startLine, endLine: replace.endLine };
+      if (
+        edits.length === 1 &&
+        replace.expectedOriginalSnippet &&
+        hasReplacementAlreadyApplied(doc, replace.replacement, hint)
+      ) {
+        return { alreadyApplied: true };
+      }
+      return { reason: edits.length > 1 ? `${where}: ${located.reason}` : located.reason };
+    }
+    const overlaps = plan.replacements.some(
+      (r) =>
+        r.uri.toString() === key &&
+        r.range.end.isAfter(located.range.start) &&
+        located.range.end.isAfter(r.range.start),
+    );
+    if (overlaps) return { reason: `${where}: overlaps another edit of the same fix.` };
+    plan.replacements.push({ uri, doc, range: located.range, text: replace.replacement });
   }
 
-  // Strategy 2: Fallback to line-based replacement (less reliable, used when no snippet provided)
-  const start = Math.max(1, fix.startLine);
-  const end = Math.max(start, fix.endLine);
+  return { plan };
+}
 
-  if (end > doc.lineCount) {
-    return {
-      applied: false,
-      reason: `Line range ${start}-${end} exceeds file length (${doc.lineCount} lines).`,
-    };
+function toWorkspaceEdit(plan: FixPlan): vscode.WorkspaceEdit {
+  const edit = new vscode.WorkspaceEdit();
+  for (const r of plan.replacements) edit.replace(r.uri, r.range, r.text);
+  for (const c of plan.creates) {
+    edit.createFile(c.uri);
+    if (c.content) edit.insert(c.uri, new vscode.Position(0, 0), c.content);
   }
+  for (const uri of plan.deletes) edit.deleteFile(uri);
+  return edit;
+}
 
-  const startPos = new vscode.Position(start - 1, 0);
-  const endLineIdx = Math.min(end - 1, doc.lineCount - 1);
-  const endPos = new vscode.Position(endLineIdx, doc.lineAt(endLineIdx).text.length);
-  const range = new vscode.Range(startPos, endPos);
-
-  const edit = new vscode.WorkspaceEdit();
-  edit.replace(uri, range, fix.replacement);
-  const ok = await vscode.workspace.applyEdit(edit);
+/**
+ * Apply a fix whose paths are relative to `root` (the repository that was reviewed). All
+ * of its edits go into one `WorkspaceEdit`, so either every file changes or none does.
+ */
+export async function applyFix(fix: Fix, root: vscode.Uri): Promise<ApplyFixResult> {
+  const planned = await planFix(fix, root);
+  if ("reason" in planned) return { applied: false, reason: planned.reason };
+  if ("alreadyApplied" in planned) {
+    return { applied: true, reason: "Fix appears to already be applied." };
+  }
 
+  const ok = await vscode.workspace.applyEdit(toWorkspaceEdit(planned.plan));
   if (!ok) {
     return { applied: false, reason: "VS Code rejected the edit." };
   }
 
-  await vscode.window.showTextDocument(doc, { preview: false });
+  await vscode.window.showTextDocument(planned.plan.replacements[0].doc, { preview: false });
   return { applied: true };
 }
 
 /**
- * Check if a fix can still be applied (the original snippet exists in the file)
+ * Check if a fix can still be applied (every edit's anchor and file is where it should be).
+ * Anchors must match exactly: a fuzzy match is good enough to apply on request, not to
+ * offer the fix as still applicable.
  */
-export async function canApplyFix(fix: Fix): Promise<boolean> {
-  if (!fix.expectedOriginalSnippet) {
-    return true; // Can't verify without expected snippet
-  }
-
+export async function canApplyFix(fix: Fix, root: vscode.Uri): Promise<boolean> {
   try {
-    const uri = toAbsoluteUri(fix.filePath);
-    const doc = await vscode.workspace.openTextDocument(uri);
-
-    // Prefer line-hinted search first
-    let match = findSnippetByLineHint(doc, fix.expectedOriginalSnippet, fix.startLine, fix.endLine);
-
-    // Fall back to global search with hint for tolerance
-    if (!match) {
-      match = findSnippetInDocument(doc, fix.expectedOriginalSnippet, {
-        startLine: fix.startLine,
-        endLine: fix.endLine,
-      });
-    }
-
-    return match !== null;
+    return "plan" in (await planFix(fix, root, { fuzzy: false }));
   } catch {
     return false;
   }
@@ -0,0 +1,158 @@
+import * as path from "path";
+import * as vscode from "vscode";
+import type { Fix } from "../schema/reviewOutput";
+import { planFix, type FixPlan } from "./applyFix";
+
+/** Scheme of the virtual documents that show a file with a fix applied. */
+export const FIX_PREVIEW_SCHEME = "vscode-code-review-fix";
+
+interface PendingPreview {
+  /** Whoever asked for the preview; closing it discards the preview. */
+  owner: unknown;
+  apply: () => Promise<void>;
+}
+
+interface DiffPair {
+  original: vscode.Uri;
+  modified: vscode.Uri;
+  label: string;
+}
+
+/** The text of `doc` with the plan's replacements in it applied. */
+function applyReplacements(
+  doc: vscode.TextDocument,
+  replacements: FixPlan["replacements"],
+): string {
+  const text = doc.getText();
+  // Back to front, so earlier offsets stay valid.
+  return replacements
+    .map((r) => ({
+      start: doc.offsetAt(r.range.start),
+      end: doc.offsetAt(r.range.end),
+      text: r.text,
+    }))
+    .sort((a, b) => b.start - a.start)
+    .reduce((acc, r) => acc.slice(0, r.start) + r.text + acc.slice(r.end), text);
+}
+
+/**
+ * Shows a fix in the diff editor before it is applied: each file it touches is compared
+ * with a virtual document of the file after the fix. The fix is resolved by `planFix`,
+ * the same matching `applyFix` uses. Apply and Discard act on the previewed fix from the
+ * diff editor's title bar; a new preview replaces the previous one.
+ */
+export class FixPreview implements vscode.TextDocumentContentProvider, vscode.Disposable {
+  private readonly contents = new Map<string, string>();
+  private readonly changed = new vscode.EventEmitter<vscode.Uri>();
+  readonly onDidChange = this.changed.event;
+  private pending: PendingPreview | undefined;
+  private generation = 0;
+
+  provideTextDocumentContent(uri: vscode.Uri): string {
+    return this.contents.get(uri.toString()) ?? "";
+  }
+
+  /**
+   * Open the diff of `fix`; `apply` runs when the user applies it from the preview.
+   * Returns why the fix cannot be previewed, or undefined once the diff is open.
+   */
+  async show(
+    fix: Fix,
+    root: vscode.Uri,
+    owner: unknown,
+    apply: () => Promise<void>,
+  ): Promise<string | undefined> {
+    const planned = await planFix(fix, root);
+    if ("reason" in planned) return planned.reason;
+    if ("alreadyApplied" in planned) return "Fix appears to already be applied.";
+
+    await this.closeTabs();
+    this.contents.clear();
+    // Fresh URIs per preview, so VS Code never shows a cached earlier version.
+    const generation = ++this.generation;
+    const virtual = (file: vscode.Uri, side: string, content: string) => {
+      const uri = file.with({ scheme: FIX_PREVIEW_SCHEME, query: `${generation}-${side}` });
+      this.contents.set(uri.toString(), content);
+      this.changed.fire(uri);
+      return uri;
+    };
+
+    const pairs: DiffPair[] = [];
+    const { plan } = planned;
+    const files = new Map<string, FixPlan["replacements"]>();
+    for (const r of plan.replacements) {
+      files.set(r.uri.toString(), [...(files.get(r.uri.toString()) ?? []), r]);
+    }
+    for (const replacements of files.values()) {
+      const { uri, doc } = replacements[0];
+      pairs.push({
+        original: uri,
+        modified: virtual(uri, "fixed", applyReplacements(doc, replacements)),
+        label: path.basename(uri.fsPath),
+      });
+    }
+    for (const c of plan.creates) {
+      pairs.push({
+        original: virtual(c.uri, "empty", ""),
+        modified: virtual(c.uri, "created", c.content),
+        label: `${path.basename(c.uri.fsPath)} (new file)`,
+      });
+    }
+    for (const uri of plan.deletes) {
+      pairs.push({
+        original: uri,
+        modified: virtual(uri, "deleted", ""),
+        label: `${path.basename(uri.fsPath)} (deleted)`,
+      });
+    }
+
+    this.pending = { owner, apply };
+    // Later files open in the background; the fix's main file ends up in front.
+    for (const [i, pair] of [...pairs.entries()].reverse()) {
+      await vscode.commands.executeCommand(
+        "vscode.diff",
+        pair.original,
+        pair.modified,
+        `${pair.label} ↔ Fix: ${fix.title}`,
+        { preview: false, preserveFocus: i !== 0 },
+      );
+    }
+    return undefined;
+  }
+
+  /** Apply the previewed fix and close its diffs. */
+  async applyPending(): Promise<void> {
+    const pending = this.pending;
+    if (!pending) {
+      await vscode.window.showInformationMessage("No fix is being previewed.");
+      return;
+    }
+    this.pending = undefined;
+    await this.closeTabs();
+    await pending.apply();
+  }
+
+  /** Close the preview without applying; with `owner`, only a preview it opened. */
+  async discard(owner?: unknown): Promise<void> {
+    if (owner !== undefined && this.pending?.owner !== owner) return;
+    this.pending = undefined;
+    await this.closeTabs();
+    this.contents.clear();
+  }
+
+  private async closeTabs(): Promise<void> {
+    const tabs = vscode.window.tabGroups.all
+      .flatMap((g) => g.tabs)
+      .filter(
+        (t) =>
+          t.input instanceof vscode.TabInputTextDiff &&
+          (t.input.modified.scheme === FIX_PREVIEW_SCHEME ||
+            t.input.original.scheme === FIX_PREVIEW_SCHEME),
+      );
+    if (tabs.length > 0) await vscode.window.tabGroups.close(tabs);
+  }
+
+  dispose(): void {
+    this.changed.dispose();
+  }
+}
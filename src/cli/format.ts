@@ -0,0 +1,93 @@
+import { isFiltered } from "../review/severity";
+import type { ReviewedFinding, ReviewedFix, ReviewResult } from "../schema/reviewOutput";
+
+function location(f: {
+  filePath: string | null;
+  startLine: number | null;
+  endLine: number | null;
+}) {
+  if (!f.filePath) return "";
+  if (!f.startLine) return f.filePath;
+  const end = f.endLine && f.endLine !== f.startLine ? `-${f.endLine}` : "";
+  return `${f.filePath}:${f.startLine}${end}`;
+}
+
+function verificationNote(v: NonNullable<ReviewedFinding["verification"]>): string {
+  const confidence = v.confidence !== null ? ` ${Math.round(v.confidence * 100)}%` : "";
+  return `${v.status}${confidence}${v.reason ? `: ${v.reason}` : ""}`;
+}
+
+function findingMarkdown(f: ReviewedFinding): string {
+  const where = location(f);
+  const notes = [
+    f.outsideDiff ? " _(outside the changed lines)_" : "",
+    f.reportedBy ? ` _(reported by ${f.reportedBy.join(", ")})_` : "",
+    f.verification ? ` _(${verificationNote(f.verification)})_` : "",
+  ].join("");
+  const tags = [
+    f.category,
+    f.cwe,
+    f.ruleId ? `rule ${f.ruleId}` : null,
+    f.confidence !== null ? `confidence ${Math.round(f.confidence * 100)}%` : null,
+  ].filter(Boolean);
+  const head = `- **[${f.severity}] ${f.title}**${where ? ` — \`${where}\`` : ""}${tags.length > 0 ? ` (${tags.join(", ")})` : ""}${notes}`;
+  const indent = (text: string) => text.trim().replace(/\n/g, "\n  ");
+  return [
+    head,
+    ...(f.rationale ? [`  ${indent(f.rationale)}`] : []),
+    ...(f.suggestedTest ? [`  _Suggested test:_ ${indent(f.suggestedTest)}`] : []),
+  ].join("\n");
+}
+
+function fixMarkdown(f: ReviewedFix): string {
+  return [
+    `### ${f.title} — \`${location(f)}\``,
+    ...(f.alternativeOf ? ["", `_Alternative to \`${f.alternativeOf}\`._`] : []),
+    ...(f.reportedBy ? ["", `_Suggested by ${f.reportedBy.join(", ")}._`] : []),
+    ...(f.verification ? ["", `_${verificationNote(f.verification)}_`] : []),
+    "",
+    "```",
+    f.replacement.replace(/\n$/, ""),
+    "```",
+    ...f.additionalEdits.flatMap((e) =>
+      e.kind === "delete"
+        ? ["", `Deletes \`${e.filePath}\`.`]
+        : [
+            "",
+            e.kind === "create" ? `Creates \`${e.filePath}\`:` : `Also edits \`${location(e)}\`:`,
+            "",
+            "```",
+            (e.replacement ?? "").replace(/\n$/, ""),
+            "```",
+          ],
+    ),
+  ].join("\n");
+}
+
+/**
+ * The review as a standalone markdown document (summary, findings, suggested fixes), with
+ * whatever verification rejected listed last.
+ */
+export function resultToMarkdown(result: ReviewResult): string {
+  const parts = [result.reviewMarkdown.trim()];
+  const findings = result.findings.filter((f) => !isFiltered(f));
+  const fixes = result.fixes.filter((f) => !isFiltered(f));
+  if (findings.length > 0) {
+    parts.push(`## Findings\n\n${findings.map(findingMarkdown).join("\n")}`);
+  }
+  if (fixes.length > 0) {
+    parts.push(`## Suggested fixes\n\n${fixes.map(fixMarkdown).join("\n\n")}`);
+  }
+  const filteredFindings = result.findings.filter(isFiltered);
+  const filteredFixes = result.fixes.filter(isFiltered);
+  if (filteredFindings.length + filteredFixes.length > 0) {
+    parts.push(
+      [
+        `## Filtered by verification`,
+        ...(filteredFindings.length > 0 ? [filteredFindings.map(findingMarkdown).join("\n")] : []),
+        ...filteredFixes.map(fixMarkdown),
+      ].join("\n\n"),
+    );
+  }
+  return `${parts.join("\n\n")}\n`;
+}
@@ -0,0 +1,189 @@
+import { execFile } from "child_process";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { isProbablyBinaryPath, shouldIgnorePath } from "../context/ignore";
+import type { PathRef } from "../context/paths";
+import {
+  countLines,
+  EMPTY_TREE,
+  LOG_FORMAT,
+  MAX_UNTRACKED_FILE_BYTES,
+  newFileDiff,
+  parseLog,
+  shortSha,
+  type DiffRange,
+  type DiffScope,
+  type GitDiffResult,
+  type ReviewScope,
+  type SkippedFile,
+} from "../git/gitDiff";
+
+export type CliDiff = GitDiffResult<PathRef>;
+
+function git(cwd: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile("git", args, { cwd, maxBuffer: 64 * 1024 * 1024 }, (err, stdout, stderr) => {
+      if (err) {
+        reject(new Error(`git ${args[0]} failed: ${stderr.trim() || err.message}`));
+        return;
+      }
+      resolve(stdout);
+    });
+  });
+}
+
+async function listPaths(root: string, args: string[]): Promise<string[]> {
+  return (await git(root, args)).split("\0").filter(Boolean);
+}
+
+const toRef = (root: string, rel: string): PathRef => ({ fsPath: path.join(root, rel) });
+
+/** Text of a git object, e.g. `<sha>:path` or `:path` for the index. */
+export function showObject(root: string, object: string): Promise<string> {
+  return git(root, ["show", "--end-of-options", object]);
+}
+
+/** Top-level directory of the repository containing `dir`. */
+export async function findRepositoryRoot(dir: string): Promise<string> {
+  return path.resolve((await git(dir, ["rev-parse", "--show-toplevel"])).trim());
+}
+
+/** Working-copy changes, including untracked files for the unstaged scope. */
+export async function getWorkingChanges(root: string, scope: ReviewScope): Promise<CliDiff> {
+  const includeUnstaged = scope === "unstaged" || scope === "both";
+  const includeStaged = scope === "staged" || scope === "both";
+  const diffArgs = ["diff", "--no-color", "--no-ext-diff"];
+
+  const unstagedDiff = includeUnstaged ? await git(root, diffArgs) : "";
+  const stagedDiff = includeStaged ? await git(root, [...diffArgs, "--cached"]) : "";
+  const untracked = includeUnstaged
+    ? await getUntrackedChanges(root)
+    : { diff: "", files: [], skipped: [] };
+
+  return {
+    repositoryRoot: { fsPath: root },
+    scope,
+    unstagedDiff,
+    stagedDiff,
+    untrackedDiff: untracked.diff,
+    committedDiff: "",
+    stagedFiles: (await listPaths(root, ["diff", "--cached", "--name-only", "-z"])).map((p) =>
+      toRef(root, p),
+    ),
+    unstagedFiles: (await listPaths(root, ["diff", "--name-only", "-z"])).map((p) =>
+      toRef(root, p),
+    ),
+    untrackedFiles: untracked.files,
+    committedFiles: [],
+    ...(untracked.skipped.length > 0 ? { skippedFiles: untracked.skipped } : {}),
+    totalLines: countLines(unstagedDiff) + countLines(stagedDiff) + countLines(untracked.diff),
+  };
+}
+
+/** Same filtering as the extension: ignored files are left out, binary and oversized ones skipped. */
+async function getUntrackedChanges(
+  root: string,
+): Promise<{ diff: string; files: PathRef[]; skipped: SkippedFile[] }> {
+  const parts: string[] = [];
+  const files: PathRef[] = [];
+  const skipped: SkippedFile[] = [];
+  for (const rel of await listPaths(root, ["ls-files", "--others", "--exclude-standard", "-z"])) {
+    if (shouldIgnorePath(rel)) continue;
+    if (isProbablyBinaryPath(rel)) {
+      skipped.push({ path: rel, reason: "binary" });
+      continue;
+    }
+
+    let text: string;
+    try {
+      const bytes = await fs.readFile(path.join(root, rel));
+      if (bytes.byteLength > MAX_UNTRACKED_FILE_BYTES) {
+        skipped.push({ path: rel, reason: `too large (${bytes.byteLength} bytes)` });
+        continue;
+      }
+      text = bytes.toString("utf8");
+    } catch {
+      continue;
+    }
+    if (/[\x00-\x08\x0E-\x1F]/.test(text)) {
+      skipped.push({ path: rel, reason: "binary" });
+      continue;
+    }
+
+    parts.push(newFileDiff(rel, text));
+    files.push(toRef(root, rel));
+  }
+  return { diff: parts.join(""), files, skipped };
+}
+
+async function revParseCommit(root: string, ref: string): Promise<string> {
+  try {
+    // `ref` comes from the command line: `--end-of-options` keeps "-..." from being an option.
+    return (
+      await git(root, ["rev-parse", "--verify", "--quiet", "--end-of-options", `${ref}^{commit}`])
+    ).trim();
+  } catch {
+    throw new Error(`Unknown commit: ${ref}`);
+  }
+}
+
+/**
+ * Committed changes for `<sha>`, `<from>..<to>` (git semantics) or `<base>...<head>`
+ * (changes on `head` since its merge-base with `base`, like a pull request).
+ */
+export async function getRangeChanges(root: string, spec: string): Promise<CliDiff> {
+  const trimmed = spec.trim();
+  let scope: DiffScope = "commits";
+  let base: string;
+  let head: string;
+
+  const threeDot = trimmed.indexOf("...");
+  const twoDot = trimmed.indexOf("..");
+  if (threeDot !== -1) {
+    scope = "branch";
+    const baseRef = trimmed.slice(0, threeDot) || "HEAD";
+    head = await revParseCommit(root, trimmed.slice(threeDot + 3) || "HEAD");
+    base = (await git(root, ["merge-base", await revParseCommit(root, baseRef), head])).trim();
+  } else if (twoDot !== -1) {
+    base = await revParseCommit(root, trimmed.slice(0, twoDot) || "HEAD");
+    head = await revParseCommit(root, trimmed.slice(twoDot + 2) || "HEAD");
+  } else {
+    head = await revParseCommit(root, trimmed);
+    // The parent of a root commit is the empty tree.
+    base = await revParseCommit(root, `${head}^`).catch(() => EMPTY_TREE);
+  }
+
+  const commits = parseLog(
+    await git(root, [
+      "log",
+      LOG_FORMAT,
+      "--max-count=200",
+      ...(base === EMPTY_TREE ? [head] : [`${base}..${head}`]),
+    ]),
+  );
+  const range: DiffRange = {
+    base,
+    head,
+    label: `${trimmed} (${base === EMPTY_TREE ? "(root)" : shortSha(base)}..${shortSha(head)})`,
+  };
+  const committedDiff = await git(root, ["diff", "--no-color", "--no-ext-diff", base, head]);
+  const committedFiles = (await listPaths(root, ["diff", "--name-only", "-z", base, head])).map(
+    (p) => toRef(root, p),
+  );
+
+  return {
+    repositoryRoot: { fsPath: root },
+    scope,
+    unstagedDiff: "",
+    stagedDiff: "",
+    untrackedDiff: "",
+    committedDiff,
+    stagedFiles: [],
+    unstagedFiles: [],
+    untrackedFiles: [],
+    committedFiles,
+    range,
+    commits,
+    totalLines: countLines(committedDiff),
+  };
+}
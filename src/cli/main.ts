@@ -0,0 +1,163 @@
+#!/usr/bin/env node
+import * as fs from "fs/promises";
+import * as path from "path";
+import { parseArgs } from "util";
+import { isEmptyDiff, isReviewScope } from "../git/gitDiff";
+import { ensembleMembers, runEnsembleReview } from "../review/ensemble";
+import { runReview } from "../review/reviewRunner";
+import { findingsAtOrAbove, type Severity } from "../review/severity";
+import { verifyFindings } from "../review/verification";
+import { resultToMarkdown } from "./format";
+import { findRepositoryRoot, getRangeChanges, getWorkingChanges } from "./gitSource";
+import { createNodeHost, settingsFromJson } from "./nodeHost";
+
+// Exit codes: 0 = passed, 1 = findings at or above --fail-on, 2 = usage or runtime error.
+const EXIT_FINDINGS = 1;
+const EXIT_ERROR = 2;
+
+const SEVERITIES: readonly Severity[] = ["critical", "high", "medium", "low"];
+
+// Bundled prompt and rules, relative to `out/cli/`.
+const PACKAGE_ROOT = path.resolve(__dirname, "..", "..");
+
+const USAGE = `Usage: vscode-code-review [options]
+
+Review git changes with the same pipeline as the VS Code extension.
+
+Options:
+  --repo <dir>        Repository to review (default: current directory)
+  --diff <source>     unstaged | staged | both (default: both), or a commit
+                      range: <sha>, <from>..<to>, <base>...<head>
+  --prompt <file>     System prompt (default: the bundled default prompt)
+  --rules <dir>       Rules directory (default: the bundled rules)
+  --config <file>     JSON settings, same keys as the extension's settings
+  --provider <name>   openai | anthropic | google | openaiCompatible
+                      (overrides --config; vscodeLm only works inside VS Code)
+  --model <id>        Model id (overrides --config; either flag also turns off
+                      an ensemble configured with ensembleModels)
+  --format <fmt>      json | markdown (default: markdown)
+  --out <file>        Write the review to a file instead of stdout
+  --fail-on <sev>     critical | high | medium | low | none (default: critical)
+  -h, --help          Show this help
+
+API keys are read from --config or from OPENAI_API_KEY, ANTHROPIC_API_KEY,
+GOOGLE_GENERATIVE_AI_API_KEY or OPENAI_COMPATIBLE_API_KEY (optional; the endpoint is
+set with openaiCompatibleBaseUrl in --config). Exits with 1 when a finding in the changed lines is at
+or above --fail-on, and with 2 on errors.
+`;
+
+class UsageError extends Error {}
+
+async function readJson(file: string): Promise<Record<string, unknown>> {
+  const parsed: unknown = JSON.parse(await fs.readFile(file, "utf8"));
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    throw new UsageError(`${file} must contain a JSON object.`);
+  }
+  return parsed as Record<string, unknown>;
+}
+
+async function main(argv: string[]): Promise<number> {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      repo: { type: "string" },
+      diff: { type: "string", default: "both" },
+      prompt: { type: "string" },
+      rules: { type: "string" },
+      config: { type: "string" },
+      provider: { type: "string" },
+      model: { type: "string" },
+      format: { type: "string", default: "markdown" },
+      out: { type: "string" },
+      "fail-on": { type: "string", default: "critical" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+
+  if (values.help) {
+    process.stdout.write(USAGE);
+    return 0;
+  }
+  const format = values.format;
+  if (format !== "json" && format !== "markdown") {
+    throw new UsageError(`--format must be json or markdown, got "${format}".`);
+  }
+  const failOn = values["fail-on"];
+  if (failOn !== "none" && !SEVERITIES.includes(failOn as Severity)) {
+    throw new UsageError(`--fail-on must be one of ${[...SEVERITIES, "none"].join(", ")}.`);
+  }
+
+  const overrides: Record<string, unknown> = {};
+  if (values.provider) overrides.provider = values.provider;
+  if (values.model) overrides.model = values.model;
+  const settings = settingsFromJson(values.config ? await readJson(values.config) : {}, overrides);
+  const host = createNodeHost(settings);
+
+  const root = await findRepositoryRoot(path.resolve(values.repo ?? process.cwd()));
+  const source = values.diff;
+  const diff = isReviewScope(source)
+    ? await getWorkingChanges(root, source)
+    : await getRangeChanges(root, source);
+  if (isEmptyDiff(diff)) {
+    process.stderr.write("No changes to review.\n");
+    return 0;
+  }
+
+  const promptFile =
+    values.prompt ?? path.join(PACKAGE_ROOT, "prompts", "templates", "01-default.md");
+  const systemPrompt = await fs.readFile(promptFile, "utf8");
+
+  // An explicit --provider or --model reviews with that model alone.
+  const members = values.provider || values.model ? [] : ensembleMembers(settings);
+  const log = { appendLine: (line: string) => process.stderr.write(`${line}\n`) };
+  const models =
+    members.length > 0
+      ? members.map((m) => `${m.provider}/${m.model}`).join(", ")
+      : `${settings.provider}/${settings.model}`;
+  log.appendLine(
+    `[info] Reviewing ${diff.range?.label ?? diff.scope} in ${root} (${diff.totalLines} changed lines) with ${models}`,
+  );
+  const args = {
+    host,
+    rulesDir: path.resolve(values.rules ?? path.join(PACKAGE_ROOT, "rules")),
+    diff,
+    systemPrompt,
+    output: log,
+  };
+  let result =
+    members.length > 0 ? await runEnsembleReview({ ...args, members }) : await runReview(args);
+  if (settings.verifyFindings && result.findings.length > 0) {
+    result = await verifyFindings({ host, diff, result, output: log });
+  }
+
+  const rendered =
+    format === "json" ? `${JSON.stringify(result, null, 2)}\n` : resultToMarkdown(result);
+  if (values.out) {
+    await fs.writeFile(values.out, rendered, "utf8");
+  } else {
+    process.stdout.write(rendered);
+  }
+
+  if (failOn === "none") return 0;
+  const blocking = findingsAtOrAbove(result, failOn as Severity);
+  if (blocking.length > 0) {
+    log.appendLine(`[info] ${blocking.length} finding(s) at or above ${failOn}`);
+    return EXIT_FINDINGS;
+  }
+  return 0;
+}
+
+main(process.argv.slice(2)).then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (err: unknown) => {
+    const msg = err instanceof Error ? err.message : String(err);
+    process.stderr.write(`error: ${msg}\n`);
+    const code = err instanceof Error ? (err as NodeJS.ErrnoException).code : undefined;
+    if (err instanceof UsageError || code?.startsWith("ERR_PARSE_ARGS")) {
+      process.stderr.write("Run with --help for usage.\n");
+    }
+    process.exitCode = EXIT_ERROR;
+  },
+);
@@ -0,0 +1,96 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import {
+  apiKeyFromSettings,
+  readSettings,
+  type AIProvider,
+  type ExtensionSettings,
+} from "../config/settingsCore";
+import {
+  IGNORED_DIRECTORIES,
+  type HostDirectoryEntry,
+  type HostFileSystem,
+  type ReviewHost,
+} from "../host/reviewHost";
+import { showObject } from "./gitSource";
+
+const PREFIX = "vscodeCodeReview.";
+
+// Environment variables the provider SDKs conventionally read (`vscodeLm` has no key).
+const API_KEY_ENV: Record<Exclude<AIProvider, "vscodeLm">, string> = {
+  openai: "OPENAI_API_KEY",
+  anthropic: "ANTHROPIC_API_KEY",
+  google: "GOOGLE_GENERATIVE_AI_API_KEY",
+  openaiCompatible: "OPENAI_COMPATIBLE_API_KEY",
+};
+
+const nodeFileSystem: HostFileSystem = {
+  readFile: async (filePath) => fs.readFile(filePath),
+
+  readDirectory: async (dirPath) => {
+    const entries = await fs.readdir(dirPath, { withFileTypes: true });
+    return entries.flatMap((e): HostDirectoryEntry[] =>
+      e.isDirectory()
+        ? [{ name: e.name, type: "directory" }]
+        : e.isFile()
+          ? [{ name: e.name, type: "file" }]
+          : [],
+    );
+  },
+
+  findFiles: async (dirPath, maxResults) => {
+    const found: string[] = [];
+    const skip = new Set(IGNORED_DIRECTORIES);
+    const walk = async (dir: string): Promise<void> => {
+      const entries = await fs.readdir(dir, { withFileTypes: true }).catch(() => []);
+      for (const e of entries) {
+        if (found.length >= maxResults) return;
+        const full = path.join(dir, e.name);
+        if (e.isDirectory()) {
+          if (!skip.has(e.name)) await walk(full);
+        } else if (e.isFile()) {
+          found.push(full);
+        }
+      }
+    };
+    await walk(dirPath);
+    return found;
+  },
+};
+
+/**
+ * Settings use the extension's keys, with or without the `vscodeCodeReview.` prefix, so a
+ * block copied from `settings.json` works as is. `overrides` win over the file.
+ */
+export function settingsFromJson(
+  raw: Record<string, unknown>,
+  overrides: Record<string, unknown> = {},
+): ExtensionSettings {
+  const values = new Map<string, unknown>();
+  for (const [key, value] of Object.entries({ ...raw, ...overrides })) {
+    values.set(key.startsWith(PREFIX) ? key.slice(PREFIX.length) : key, value);
+  }
+  return readSettings(<T>(key: string, fallback: T) =>
+    values.has(key) ? (values.get(key) as T) : fallback,
+  );
+}
+
+/** API keys come from the settings file first, then from the provider's environment variable. */
+export function createNodeHost(settings: ExtensionSettings): ReviewHost {
+  return {
+    fs: nodeFileSystem,
+    getSettings: () => settings,
+    getApiKey: async (provider) => {
+      if (provider === "vscodeLm") return undefined;
+      return (
+        apiKeyFromSettings(settings, provider) ??
+        (process.env[API_KEY_ENV[provider]]?.trim() || undefined)
+      );
+    },
+    apiKeyHint: (provider) =>
+      provider === "vscodeLm"
+        ? "VS Code language models are not available in the CLI."
+        : `Set ${API_KEY_ENV[provider]} or add it to the file passed with --config.`,
+    gitShow: showObject,
+  };
+}
@@ -1,37 +1,34 @@
 import * as vscode from "vscode";
+import {
+  AI_PROVIDERS,
+  apiKeyFromSettings,
+  apiKeyOptional,
+  usesApiKey,
+  readSettings,
+  type AIProvider,
+  type ExtensionSettings,
+} from "./settingsCore";
 
-export type AIProvider = "openai" | "anthropic" | "google";
+export { AI_PROVIDERS, apiKeyOptional, usesApiKey };
 
-export interface ExtensionSettings {
-  provider: AIProvider;
-  model: string;
-  openaiApiKey?: string;
-  anthropicApiKey?: string;
-  googleApiKey?: string;
-}
+export type {
+  AIProvider,
+  AutoReviewMode,
+  BudgetMode,
+  CommitGateMode,
+  ExtensionSettings,
+  GateSeverity,
+  ModelRef,
+  OutOfDiffFindings,
+} from "./settingsCore";
 
 const SECTION = "vscodeCodeReview";
 
 export function getSettings(): ExtensionSettings {
   const cfg = vscode.workspace.getConfiguration(SECTION);
-
-  return {
-    provider: cfg.get<AIProvider>("provider", "anthropic"),
-    model: cfg.get<string>("model", "claude-sonnet-4-20250514"),
-    openaiApiKey: cfg.get<string>("openaiApiKey"),
-    anthropicApiKey: cfg.get<string>("anthropicApiKey"),
-    googleApiKey: cfg.get<string>("googleApiKey"),
-  };
+  return readSettings((key, fallback) => cfg.get(key, fallback));
 }
 
 export function getApiKeyForProvider(provider: AIProvider): string | undefined {
-  const s = getSettings();
-  const raw =
-    provider === "openai"
-      ? s.openaiApiKey
-      : provider === "anthropic"
-        ? s.anthropicApiKey
-        : s.googleApiKey;
-  const trimmed = raw?.trim();
-  return trimmed ? trimmed : undefined;
+  return apiKeyFromSettings(getSettings(), provider);
 }
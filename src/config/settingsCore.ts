@@ -0,0 +1,143 @@
+/**
+ * Settings model shared by the extension and the CLI. Only the source of the raw values
+ * differs: VS Code configuration in the extension, a JSON file and flags in the CLI.
+ */
+
+export type AIProvider = "openai" | "anthropic" | "google" | "openaiCompatible" | "vscodeLm";
+
+export const AI_PROVIDERS: readonly AIProvider[] = [
+  "openai",
+  "anthropic",
+  "google",
+  "openaiCompatible",
+  "vscodeLm",
+];
+
+/** VS Code's own language models are authorized by the editor, not with an API key. */
+export function usesApiKey(provider: AIProvider): boolean {
+  return provider !== "vscodeLm";
+}
+
+/** Providers that work without an API key (local servers usually need none). */
+export function apiKeyOptional(provider: AIProvider): boolean {
+  return provider === "openaiCompatible";
+}
+
+export type OutOfDiffFindings = "keep" | "flag" | "drop";
+
+export type AutoReviewMode = "off" | "onSave" | "onIdle";
+
+export type CommitGateMode = "off" | "warn" | "block";
+
+export type GateSeverity = "critical" | "high" | "medium" | "low";
+
+export type BudgetMode = "warn" | "refuse";
+
+/** One provider/model pair, e.g. a member of an ensemble review. */
+export interface ModelRef {
+  provider: AIProvider;
+  model: string;
+}
+
+export interface ExtensionSettings {
+  provider: AIProvider;
+  model: string;
+  baseBranch: string;
+  outOfDiffFindings: OutOfDiffFindings;
+  batchMaxTokens: number;
+  batchConcurrency: number;
+  incrementalReview: boolean;
+  autoReview: AutoReviewMode;
+  autoReviewDelaySeconds: number;
+  autoReviewMinLines: number;
+  commitGate: CommitGateMode;
+  commitGateSeverity: GateSeverity;
+  /** Base URL of an OpenAI-compatible API, including the version path (e.g. `/v1`). */
+  openaiCompatibleBaseUrl: string;
+  /** Extra HTTP headers sent to the OpenAI-compatible endpoint. */
+  openaiCompatibleHeaders: Record<string, string>;
+  /** Spend limits in USD; 0 disables a limit. */
+  dailyBudgetUsd: number;
+  monthlyBudgetUsd: number;
+  budgetMode: BudgetMode;
+  /** Models that review in parallel; fewer than two valid entries means no ensemble. */
+  ensembleModels: ModelRef[];
+  /** Retries of a rate-limited or failed provider request before falling back. */
+  maxRetries: number;
+  /** Models tried in order when the configured one keeps failing. */
+  fallbackModels: ModelRef[];
+  /** Second pass that checks each finding against the code and filters rejected ones. */
+  verifyFindings: boolean;
+  /** Findings the verifier confirms with less confidence than this (0-1) are filtered too. */
+  verifyMinConfidence: number;
+  openaiApiKey?: string;
+  anthropicApiKey?: string;
+  googleApiKey?: string;
+}
+
+/** Reads one setting by its key (without the `vscodeCodeReview.` prefix). */
+export type SettingReader = <T>(key: string, fallback: T) => T;
+
+export function readSettings(get: SettingReader): ExtensionSettings {
+  return {
+    provider: get<AIProvider>("provider", "anthropic"),
+    model: get<string>("model", "claude-sonnet-4-20250514"),
+    baseBranch: get<string>("baseBranch", "main").trim() || "main",
+    outOfDiffFindings: get<OutOfDiffFindings>("outOfDiffFindings", "flag"),
+    batchMaxTokens: Math.max(1000, get<number>("batchMaxTokens", 30000)),
+    batchConcurrency: Math.max(1, Math.floor(get<number>("batchConcurrency", 3))),
+    incrementalReview: get<boolean>("incrementalReview", true),
+    autoReview: get<AutoReviewMode>("autoReview", "off"),
+    autoReviewDelaySeconds: Math.max(1, get<number>("autoReviewDelaySeconds", 10)),
+    autoReviewMinLines: Math.max(0, get<number>("autoReviewMinLines", 5)),
+    commitGate: get<CommitGateMode>("commitGate", "off"),
+    commitGateSeverity: get<GateSeverity>("commitGateSeverity", "critical"),
+    openaiCompatibleBaseUrl: get<string>("openaiCompatibleBaseUrl", "http://localhost:11434/v1")
+      .trim()
+      .replace(/\/+$/, ""),
+    openaiCompatibleHeaders: stringRecord(get<unknown>("openaiCompatibleHeaders", {})),
+    dailyBudgetUsd: Math.max(0, get<number>("dailyBudgetUsd", 0)),
+    monthlyBudgetUsd: Math.max(0, get<number>("monthlyBudgetUsd", 0)),
+    budgetMode: get<BudgetMode>("budgetMode", "warn"),
+    ensembleModels: modelRefs(get<unknown>("ensembleModels", [])),
+    maxRetries: Math.min(10, Math.max(0, Math.floor(get<number>("maxRetries", 3)))),
+    fallbackModels: modelRefs(get<unknown>("fallbackModels", [])),
+    verifyFindings: get<boolean>("verifyFindings", false),
+    verifyMinConfidence: Math.min(1, Math.max(0, get<number>("verifyMinConfidence", 0.5))),
+    openaiApiKey: get<string | undefined>("openaiApiKey", undefined),
+    anthropicApiKey: get<string | undefined>("anthropicApiKey", undefined),
+    googleApiKey: get<string | undefined>("googleApiKey", undefined),
+  };
+}
+
+function modelRefs(value: unknown): ModelRef[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((v): ModelRef[] => {
+    if (typeof v !== "object" || v === null) return [];
+    const { provider, model } = v as Record<string, unknown>;
+    if (!AI_PROVIDERS.includes(provider as AIProvider)) return [];
+    if (typeof model !== "string" || !model.trim()) return [];
+    return [{ provider: provider as AIProvider, model: model.trim() }];
+  });
+}
+
+function stringRecord(value: unknown): Record<string, string> {
+  if (typeof value !== "object" || value === null) return {};
+  return Object.fromEntries(
+    Object.entries(value).filter((e): e is [string, string] => typeof e[1] === "string"),
+  );
+}
+
+export function apiKeyFromSettings(s: ExtensionSettings, provider: AIProvider): string | undefined {
+  // The OpenAI-compatible key (if any) only lives in secret storage or the environment.
+  const raw =
+    provider === "openai"
+      ? s.openaiApiKey
+      : provider === "anthropic"
+        ? s.anthropicApiKey
+        : provider === "google"
+          ? s.googleApiKey
+          : undefined;
+  const trimmed = raw?.trim();
+  return trimmed ? trimmed : undefined;
+}
@@ -0,0 +1,23 @@
+import * as path from "path";
+
+/** Anything with a file-system path, e.g. a `vscode.Uri`. */
+export interface PathRef {
+  readonly fsPath: string;
+}
+
+/** Root-relative path with forward slashes. */
+export function relativeToRoot(root: PathRef, target: PathRef | string): string {
+  const fsPath = typeof target === "string" ? target : target.fsPath;
+  return path.relative(root.fsPath, fsPath).replaceAll("\\", "/");
+}
+
+/** Absolute path for a root-relative (or already absolute) path. */
+export function resolvePath(root: PathRef, filePath: string): string {
+  return path.isAbsolute(filePath) ? filePath : path.join(root.fsPath, filePath);
+}
+
+/** Whether a root-relative (or absolute) path points at a file inside `root`. */
+export function isInsideRoot(root: PathRef, filePath: string): boolean {
+  const rel = path.relative(root.fsPath, resolvePath(root, filePath));
+  return rel !== "" && rel !== ".." && !rel.startsWith(`..${path.sep}`) && !path.isAbsolute(rel);
+}
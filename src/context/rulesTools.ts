@@ -1,21 +1,25 @@
-import * as vscode from "vscode";
+import * as path from "path";
+import type { HostFileSystem } from "../host/reviewHost";
 
 export interface RulesToolsOptions {
   onEvent?: (event: { type: "readRule"; detail: string }) => void;
 }
 
-export function createRulesTools(extensionUri: vscode.Uri, opts: RulesToolsOptions = {}) {
-  const rulesRoot = vscode.Uri.joinPath(extensionUri, "rules");
-
+/** Tools over a directory of markdown rules; ids are paths without the `.md` extension. */
+export function createRulesTools(
+  rulesRoot: string,
+  fs: HostFileSystem,
+  opts: RulesToolsOptions = {},
+) {
   async function listRuleIds(): Promise<string[]> {
     const ids: string[] = [];
 
-    async function walk(dir: vscode.Uri, prefix: string) {
-      const entries = await vscode.workspace.fs.readDirectory(dir);
-      for (const [name, type] of entries) {
-        if (type === vscode.FileType.Directory) {
-          await walk(vscode.Uri.joinPath(dir, name), prefix ? `${prefix}/${name}` : name);
-        } else if (type === vscode.FileType.File && name.endsWith(".md")) {
+    async function walk(dir: string, prefix: string) {
+      const entries = await fs.readDirectory(dir);
+      for (const { name, type } of entries) {
+        if (type === "directory") {
+          await walk(path.join(dir, name), prefix ? `${prefix}/${name}` : name);
+        } else if (type === "file" && name.endsWith(".md")) {
           const base = name.replace(/\.md$/, "");
           ids.push(prefix ? `${prefix}/${base}` : base);
         }
@@ -28,8 +32,8 @@ export function createRulesTools(extensionUri: vscode.Uri, opts: RulesToolsOptio
 
   async function readRule(id: string): Promise<{ id: string; content: string }> {
     const normalized = id.replaceAll("\\", "/").replace(/^\/+/, "");
-    const uri = vscode.Uri.joinPath(rulesRoot, `${normalized}.md`);
-    const bytes = await vscode.workspace.fs.readFile(uri);
+    const filePath = path.join(rulesRoot, `${normalized}.md`);
+    const bytes = await fs.readFile(filePath);
     const content = Buffer.from(bytes).toString("utf8");
     opts.onEvent?.({ type: "readRule", detail: normalized });
     return { id: normalized, content };
@@ -37,5 +41,3 @@ export function createRulesTools(extensionUri: vscode.Uri, opts: RulesToolsOptio
 
   return { listRuleIds, readRule };
 }
-
-
@@ -0,0 +1,21 @@
+import * as vscode from "vscode";
+import { resolvePath } from "./paths";
+
+export { isInsideRoot, relativeToRoot } from "./paths";
+
+/**
+ * Root used when a caller has no repository of its own (single-folder workspaces).
+ */
+export function getDefaultWorkspaceRoot(): vscode.Uri {
+  const root = vscode.workspace.workspaceFolders?.[0]?.uri;
+  if (!root) throw new Error("No workspace folder is open.");
+  return root;
+}
+
+/**
+ * Resolve a root-relative (or absolute) path. Review output paths are relative to the
+ * repository that was reviewed, which is not necessarily the first workspace folder.
+ */
+export function resolveUnderRoot(root: vscode.Uri, filePath: string): vscode.Uri {
+  return vscode.Uri.file(resolvePath(root, filePath));
+}
@@ -1,17 +1,17 @@
-import * as path from "path";
-import * as vscode from "vscode";
 import { z } from "zod";
+import type { HostFileSystem, ReviewLog } from "../host/reviewHost";
 import { isProbablyBinaryPath, shouldIgnorePath } from "./ignore";
+import { relativeToRoot, resolvePath, type PathRef } from "./paths";
 
 export const ReadFileInputSchema = z.object({
-  path: z.string().min(1).describe("File path (absolute or workspace-relative)."),
+  path: z.string().min(1).describe("File path (absolute or repository-relative)."),
 });
 
 export const ListFilesInputSchema = z.object({
   root: z
     .string()
     .optional()
-    .describe("Root folder (absolute or workspace-relative). Defaults to workspace root."),
+    .describe("Root folder (absolute or repository-relative). Defaults to the repository root."),
   maxEntries: z.number().int().positive().max(2000).default(300),
 });
 
@@ -23,9 +23,15 @@ export const SearchInputSchema = z.object({
 export type WorkspaceTools = ReturnType<typeof createWorkspaceTools>;
 
 export interface WorkspaceToolsOptions {
+  /** Repository under review; relative paths resolve against it. */
+  root: PathRef;
+  fs: HostFileSystem;
   maxBytesPerFile?: number;
   maxTotalBytes?: number;
-  onEvent?: (event: { type: "readFile" | "listFiles" | "search" | "readRule"; detail: string }) => void;
+  onEvent?: (event: {
+    type: "readFile" | "listFiles" | "search" | "readRule";
+    detail: string;
+  }) => void;
 }
 
 class Budget {
@@ -45,37 +51,21 @@ class Budget {
   }
 }
 
-function getWorkspaceRoot(): vscode.Uri {
-  const root = vscode.workspace.workspaceFolders?.[0]?.uri;
-  if (!root) throw new Error("No workspace folder is open.");
-  return root;
-}
-
-function toAbsoluteFsPath(inputPath: string): string {
-  if (path.isAbsolute(inputPath)) return inputPath;
-  const root = getWorkspaceRoot();
-  return path.join(root.fsPath, inputPath);
-}
-
-export function createWorkspaceTools(
-  opts: WorkspaceToolsOptions = {},
-  output?: vscode.OutputChannel,
-) {
+export function createWorkspaceTools(opts: WorkspaceToolsOptions, output?: ReviewLog) {
   const maxBytesPerFile = opts.maxBytesPerFile ?? 200_000;
   const maxTotalBytes = opts.maxTotalBytes ?? 1_000_000;
   const budget = new Budget(maxTotalBytes, maxBytesPerFile);
+  const root = opts.root;
 
   const readFile = async (input: z.infer<typeof ReadFileInputSchema>) => {
-    const abs = toAbsoluteFsPath(input.path);
-    const rel = vscode.workspace.asRelativePath(abs, false);
-    const normalized = rel.replaceAll("\\", "/");
+    const filePath = resolvePath(root, input.path);
+    const normalized = relativeToRoot(root, filePath);
 
     if (shouldIgnorePath(normalized) || isProbablyBinaryPath(normalized)) {
       throw new Error(`Access denied for path: ${normalized}`);
     }
 
-    const uri = vscode.Uri.file(abs);
-    const bytes = await vscode.workspace.fs.readFile(uri);
+    const bytes = await opts.fs.readFile(filePath);
     budget.take(bytes.byteLength);
 
     // Assume UTF-8. If it looks binary-ish, block.
@@ -95,20 +85,10 @@ export function createWorkspaceTools(
   };
 
   const listFiles = async (input: z.infer<typeof ListFilesInputSchema>) => {
-    const rootFs = toAbsoluteFsPath(input.root ?? "");
-    const rootUri = vscode.Uri.file(rootFs);
-
-    // VS Code glob ignore is limited; we combine a broad ignore glob with an additional regex filter.
-    const ignoreGlob = "**/{node_modules,.git,dist,build,out,target,coverage}/**";
-    const found = await vscode.workspace.findFiles(
-      new vscode.RelativePattern(rootUri, "**/*"),
-      ignoreGlob,
-      input.maxEntries,
-    );
+    const found = await opts.fs.findFiles(resolvePath(root, input.root ?? ""), input.maxEntries);
 
-    const files = found
-      .map((u) => vscode.workspace.asRelativePath(u, false).replaceAll("\\", "/"))
-      .filter((p) => !shouldIgnorePath(p));
+    // The host skips dependency/build folders; the regex filter catches the rest.
+    const files = found.map((p) => relativeToRoot(root, p)).filter((p) => !shouldIgnorePath(p));
 
     output?.appendLine(`[tool:listFiles] root=${input.root ?? "."} -> ${files.length} files`);
     opts.onEvent?.({ type: "listFiles", detail: input.root ?? "." });
@@ -119,19 +99,18 @@ export function createWorkspaceTools(
     const results: Array<{ path: string; line: number; preview: string }> = [];
     const query = input.query;
 
-    const ignoreGlob = "**/{node_modules,.git,dist,build,out,target,coverage}/**";
-    const candidates = await vscode.workspace.findFiles("**/*", ignoreGlob, 800);
+    const candidates = await opts.fs.findFiles(root.fsPath, 800);
 
-    for (const uri of candidates) {
+    for (const filePath of candidates) {
       if (results.length >= input.maxMatches) break;
 
-      const rel = vscode.workspace.asRelativePath(uri, false).replaceAll("\\", "/");
+      const rel = relativeToRoot(root, filePath);
       if (shouldIgnorePath(rel) || isProbablyBinaryPath(rel)) continue;
 
       // Read file (bounded by per-file + total budget).
       let content: string;
       try {
-        const bytes = await vscode.workspace.fs.readFile(uri);
+        const bytes = await opts.fs.readFile(filePath);
         budget.take(bytes.byteLength);
         content = Buffer.from(bytes).toString("utf8");
         if (/[\x00-\x08\x0E-\x1F]/.test(content)) continue;
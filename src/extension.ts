@@ -1,12 +1,25 @@
 import * as vscode from "vscode";
-import { getSettings } from "./config/settings";
-import { GitManager } from "./git/gitManager";
+import {
+  AI_PROVIDERS,
+  apiKeyOptional,
+  getSettings,
+  usesApiKey,
+  type AIProvider,
+} from "./config/settings";
+import { GitManager, isEmptyDiff, isReviewScope, type GitDiffResult } from "./git/gitManager";
+import { pickChanges } from "./git/changePicker";
+import { pickCommitSpec } from "./git/commitPicker";
 import { SidebarProvider } from "./views/SidebarProvider";
-import { ReviewPanel } from "./views/ReviewPanel";
-import { runReview } from "./review/reviewRunner";
+import { ReviewController } from "./review/reviewController";
+import { AutoReviewer } from "./review/autoReview";
+import { CommitGate } from "./review/commitGate";
 import { PromptManager } from "./prompts/promptManager";
-import { fetchModels } from "./ai/modelCatalog";
-import { getApiKeyForProvider } from "./config/settings";
+import { ModelCatalog } from "./ai/modelCatalog";
+import { pickModel } from "./ai/modelPicker";
+import { providerLabel } from "./ai/modelFactory";
+import { ApiKeyStore } from "./secrets/apiKeyStore";
+import { FixPreview, FIX_PREVIEW_SCHEME } from "./apply/fixPreview";
+import { ReviewPanel } from "./views/ReviewPanel";
 
 export function activate(context: vscode.ExtensionContext) {
   const output = vscode.window.createOutputChannel("Code Review");
@@ -14,10 +27,39 @@ export function activate(context: vscode.ExtensionContext) {
 
   const git = new GitManager();
   const promptManager = new PromptManager(context);
+  const keys = new ApiKeyStore(context.secrets);
+  const catalog = new ModelCatalog(context.globalState);
+
+  void keys.migrateFromSettings().then(
+    ({ moved, conflicting }) => {
+      if (conflicting.length > 0) {
+        output.appendLine(
+          `[warn] API key setting(s) differ from the key in secret storage and were left in place: ${conflicting.map(providerLabel).join(", ")}. The stored key is used.`,
+        );
+      }
+      if (moved.length === 0) return;
+      const names = moved.map(providerLabel).join(", ");
+      output.appendLine(`[info] Moved API key(s) from settings to secret storage: ${names}`);
+      void vscode.window.showInformationMessage(
+        `Code Review: your ${names} API key${moved.length === 1 ? " was" : "s were"} moved from settings to VS Code secret storage.`,
+      );
+    },
+    (err: unknown) => {
+      const msg = err instanceof Error ? err.message : String(err);
+      output.appendLine(`[error] Moving API keys to secret storage failed: ${msg}`);
+    },
+  );
 
-  const sidebarProvider = new SidebarProvider(context, context.extensionUri, output, promptManager);
+  const sidebarProvider = new SidebarProvider(
+    context,
+    context.extensionUri,
+    output,
+    promptManager,
+    keys,
+  );
   context.subscriptions.push(
     vscode.window.registerWebviewViewProvider(SidebarProvider.viewType, sidebarProvider),
+    keys.onDidChange(() => void sidebarProvider.refresh()),
   );
 
   // keep sidebar in sync when provider/model settings change
@@ -32,97 +74,196 @@ export function activate(context: vscode.ExtensionContext) {
     }),
   );
 
+  const fixPreview = new FixPreview();
+  ReviewPanel.useFixPreview(fixPreview);
   context.subscriptions.push(
-    vscode.commands.registerCommand("vscodeCodeReview.runReview", async () => {
-      try {
-        if (!git.isGitAvailable()) {
-          await vscode.window.showErrorMessage(
-            "Git extension is not available. Please ensure Git is installed and the built-in Git extension is enabled.",
+    fixPreview,
+    vscode.workspace.registerTextDocumentContentProvider(FIX_PREVIEW_SCHEME, fixPreview),
+    vscode.commands.registerCommand("vscodeCodeReview.applyPreviewedFix", () =>
+      fixPreview.applyPending(),
+    ),
+    vscode.commands.registerCommand("vscodeCodeReview.discardPreviewedFix", () =>
+      fixPreview.discard(),
+    ),
+  );
+
+  const reviews = new ReviewController(context, output, git, promptManager, sidebarProvider, keys);
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("vscodeCodeReview.runReview", (scopeArg?: unknown) =>
+      reviews.runCommand("runReview", async () => {
+        if (!(await reviews.ensureRepository())) return;
+
+        // Callers may pass a scope explicitly; otherwise use the one picked in the sidebar.
+        const scope = isReviewScope(scopeArg) ? scopeArg : sidebarProvider.getReviewScope();
+        const repos = await reviews.pickRepositories({ allowAll: true });
+        if (!repos) return;
+        if (repos.length === 0) {
+          await vscode.window.showInformationMessage(
+            "No uncommitted changes found. Nothing to review.",
           );
           return;
         }
-        if (!git.hasRepository()) {
-          await vscode.window.showErrorMessage("No Git repository found in the current workspace.");
+
+        const diffs: GitDiffResult[] = [];
+        for (const repo of repos) {
+          diffs.push(await git.getChanges(scope, repo.rootUri));
+        }
+        const withChanges = diffs.filter((d) => !isEmptyDiff(d));
+        if (withChanges.length === 0) {
+          await vscode.window.showInformationMessage(noChangesMessage(diffs[0]));
           return;
         }
 
-        const diff = await git.getUnstagedChanges();
-        if (!diff.unstagedDiff.trim()) {
-          const stagedCount = diff.stagedFiles.length;
+        for (const diff of withChanges) {
+          await reviews.review(diff);
+        }
+      }),
+    ),
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "vscodeCodeReview.reviewSelectedChanges",
+      (scopeArg?: unknown) =>
+        reviews.runCommand("reviewSelectedChanges", async () => {
+          if (!(await reviews.ensureRepository())) return;
+
+          const scope = isReviewScope(scopeArg) ? scopeArg : sidebarProvider.getReviewScope();
+          const [repo] = (await reviews.pickRepositories()) ?? [];
+          if (!repo) return;
+
+          const diff = await git.getChanges(scope, repo.rootUri);
+          if (isEmptyDiff(diff)) {
+            await vscode.window.showInformationMessage(noChangesMessage(diff));
+            return;
+          }
+
+          const selected = await pickChanges(diff, context.workspaceState);
+          if (!selected) return;
+          if (isEmptyDiff(selected)) {
+            await vscode.window.showInformationMessage("No changes selected. Nothing to review.");
+            return;
+          }
+
+          await reviews.review(selected);
+        }),
+    ),
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("vscodeCodeReview.reviewBranch", (baseArg?: unknown) =>
+      reviews.runCommand("reviewBranch", async () => {
+        if (!(await reviews.ensureRepository())) return;
+
+        const [repo] = (await reviews.pickRepositories()) ?? [];
+        if (!repo) return;
+
+        const baseBranch =
+          typeof baseArg === "string" && baseArg.trim() ? baseArg.trim() : getSettings().baseBranch;
+        const diff = await git.getBranchChanges(baseBranch, repo.rootUri);
+        if (isEmptyDiff(diff)) {
           await vscode.window.showInformationMessage(
-            stagedCount > 0
-              ? `No unstaged changes found. Nothing to review. (${stagedCount} staged file(s) not reviewed.)`
-              : "No unstaged changes found. Nothing to review.",
+            `No commits to review: ${diff.range?.label ?? baseBranch} has no changes.`,
           );
           return;
         }
 
-        await vscode.window.withProgress(
-          {
-            location: vscode.ProgressLocation.Notification,
-            title: "Code Review",
-            cancellable: false,
-          },
-          async (progress) => {
-            progress.report({ message: "Reviewing changes..." });
-
-            await promptManager.ensureDefaults();
-            const activePromptId = promptManager.getActivePromptId();
-            if (!activePromptId) {
-              throw new Error("No prompt selected.");
-            }
-            const { content: systemPrompt } = await promptManager.getPromptContent(activePromptId);
-
-            sidebarProvider.setReviewing(true);
-            const abortController = sidebarProvider.createAbortController();
-            const result = await runReview({
-              extensionUri: context.extensionUri,
-              diff,
-              systemPrompt,
-              output,
-              abortSignal: abortController.signal,
-              onActivity: (evt) => {
-                if (evt.type === "readFile")
-                  sidebarProvider.pushActivity(`readFile: ${evt.detail}`);
-                else if (evt.type === "listFiles")
-                  sidebarProvider.pushActivity(`listFiles: ${evt.detail}`);
-                else if (evt.type === "readRule")
-                  sidebarProvider.pushActivity(`readRule: ${evt.detail}`);
-                else sidebarProvider.pushActivity(`search: ${evt.detail}`);
-              },
-              onUsage: (usage) => {
-                if (usage && typeof usage === "object") {
-                  const u = usage as {
-                    inputTokens?: number;
-                    outputTokens?: number;
-                    totalTokens?: number;
-                  };
-                  sidebarProvider.setUsage(u);
-                } else {
-                  sidebarProvider.setUsage(undefined);
-                }
-              },
-            });
-
-            ReviewPanel.createOrShow(context.extensionUri, result);
-            sidebarProvider.setReviewing(false);
-          },
-        );
-      } catch (err) {
-        sidebarProvider.setReviewing(false);
-        // Handle user cancellation gracefully
-        if (err instanceof Error && (err.name === "AbortError" || err.message.includes("aborted"))) {
-          output.appendLine(`[info] Review cancelled by user`);
-          await vscode.window.showInformationMessage("Code review cancelled.");
+        await reviews.review(diff, { title: `Code Review: ${diff.range?.label}` });
+      }),
+    ),
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("vscodeCodeReview.reviewCommits", (specArg?: unknown) =>
+      reviews.runCommand("reviewCommits", async () => {
+        if (!(await reviews.ensureRepository())) return;
+
+        const [repo] = (await reviews.pickRepositories()) ?? [];
+        if (!repo) return;
+
+        const spec =
+          typeof specArg === "string" && specArg.trim()
+            ? specArg.trim()
+            : await pickCommitSpec(await git.getRecentCommits(50, repo.rootUri));
+        if (!spec) return;
+
+        const diff = await git.getCommitChanges(spec, repo.rootUri);
+        if (isEmptyDiff(diff)) {
+          await vscode.window.showInformationMessage(
+            `No changes to review in ${diff.range?.label ?? spec}.`,
+          );
           return;
         }
-        const msg = err instanceof Error ? err.message : String(err);
-        output.appendLine(`[error] runReview: ${msg}`);
-        await vscode.window.showErrorMessage(`Code review failed: ${msg}`);
+
+        await reviews.review(diff, { title: `Code Review: ${diff.range?.label}` });
+      }),
+    ),
+  );
+
+  const gate = new CommitGate(git, reviews, output);
+
+  // The SCM title menu passes the clicked source control; otherwise ask for a repository.
+  const gateRepository = async (arg: unknown): Promise<vscode.Uri | undefined> => {
+    const rootUri = (arg as { rootUri?: unknown } | undefined)?.rootUri;
+    if (rootUri instanceof vscode.Uri) return rootUri;
+    const [repo] = (await reviews.pickRepositories()) ?? [];
+    return repo?.rootUri;
+  };
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("vscodeCodeReview.reviewAndCommit", (arg?: unknown) =>
+      reviews.runCommand("reviewAndCommit", async () => {
+        if (!(await reviews.ensureRepository())) return;
+        const rootUri = await gateRepository(arg);
+        if (rootUri) await gate.reviewAndCommit(rootUri);
+      }),
+    ),
+    vscode.commands.registerCommand("vscodeCodeReview.reviewStagedForCommit", (arg?: unknown) =>
+      reviews.runCommand("reviewStagedForCommit", async () => {
+        if (!(await reviews.ensureRepository())) return;
+        const rootUri = await gateRepository(arg);
+        const verdict = rootUri ? await gate.reviewStaged(rootUri) : undefined;
+        if (verdict?.status === "fail") {
+          await vscode.window.showWarningMessage(
+            `${verdict.blocking.length} finding(s) at or above ${verdict.threshold}. The pre-commit hook will reject these staged changes.`,
+          );
+        } else if (verdict?.status === "incomplete") {
+          await vscode.window.showWarningMessage(
+            "The review did not cover all staged changes. The pre-commit hook will reject them until a complete review passes.",
+          );
+        }
+      }),
+    ),
+    vscode.commands.registerCommand("vscodeCodeReview.installCommitHook", (arg?: unknown) =>
+      reviews.runCommand("installCommitHook", async () => {
+        if (!(await reviews.ensureRepository())) return;
+        const rootUri = await gateRepository(arg);
+        if (rootUri) await gate.installHook(rootUri);
+      }),
+    ),
+  );
+
+  const autoReviewer = new AutoReviewer(git, reviews, sidebarProvider, output);
+  context.subscriptions.push(autoReviewer);
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("vscodeCodeReview.showAutoReview", async () => {
+      if (!autoReviewer.showLast()) {
+        await vscode.window.showInformationMessage("No background review has run yet.");
       }
     }),
   );
 
+  context.subscriptions.push(
+    vscode.commands.registerCommand("vscodeCodeReview.clearReviewHistory", async () => {
+      await reviews.clearHistory();
+      await vscode.window.showInformationMessage(
+        "Previous reviews forgotten. The next review covers every changed file.",
+      );
+    }),
+  );
+
   context.subscriptions.push(
     vscode.commands.registerCommand("vscodeCodeReview.openSettings", async () => {
       await vscode.commands.executeCommand("workbench.action.openSettings", "vscodeCodeReview");
@@ -130,46 +271,95 @@ export function activate(context: vscode.ExtensionContext) {
   );
 
   context.subscriptions.push(
-    vscode.commands.registerCommand("vscodeCodeReview.pickModel", async () => {
-      const { provider } = getSettings();
-      const apiKey = getApiKeyForProvider(provider);
-      if (!apiKey) {
-        await vscode.window.showErrorMessage(
-          `API key is not set for ${provider}. Configure it in VS Code Settings: “Code Review”.`,
-        );
-        return;
-      }
-
-      const controller = new AbortController();
-      const timeout = setTimeout(() => controller.abort(), 15000);
-      let models: string[] = [];
-      try {
-        models = await fetchModels({ provider, apiKey, abortSignal: controller.signal });
-      } catch (e) {
-        models = [];
-      } finally {
-        clearTimeout(timeout);
-      }
-
-      if (models.length === 0) {
-        await vscode.window.showErrorMessage("Could not fetch models for the selected provider.");
-        return;
-      }
-
-      const picked = await vscode.window.showQuickPick(models, {
-        placeHolder: `Select a ${provider} model`,
-        matchOnDescription: true,
+    vscode.commands.registerCommand("vscodeCodeReview.setApiKey", async (providerArg?: unknown) => {
+      const provider = await pickProvider(keys, providerArg, "Set the API key for");
+      if (!provider) return;
+      const apiKey = await vscode.window.showInputBox({
+        prompt: `${providerLabel(provider)} API key`,
+        password: true,
         ignoreFocusOut: true,
+        validateInput: (v) => (!v.trim() ? "Required" : null),
       });
+      if (!apiKey) return;
+      await keys.set(provider, apiKey);
+      await vscode.window.showInformationMessage(
+        `${providerLabel(provider)} API key saved to secret storage.`,
+      );
+    }),
+    vscode.commands.registerCommand(
+      "vscodeCodeReview.clearApiKey",
+      async (providerArg?: unknown) => {
+        const provider = await pickProvider(keys, providerArg, "Clear the API key for");
+        if (!provider) return;
+        await keys.clear(provider);
+        await vscode.window.showInformationMessage(
+          `${providerLabel(provider)} API key removed from secret storage.`,
+        );
+      },
+    ),
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("vscodeCodeReview.pickModel", async () => {
+      const picked = await pickModel(catalog, keys, output);
       if (!picked) return;
 
-      await vscode.workspace
-        .getConfiguration("vscodeCodeReview")
-        .update("model", picked, vscode.ConfigurationTarget.Global);
+      const cfg = vscode.workspace.getConfiguration("vscodeCodeReview");
+      if (picked.provider !== getSettings().provider) {
+        await cfg.update("provider", picked.provider, vscode.ConfigurationTarget.Global);
+      }
+      await cfg.update("model", picked.id, vscode.ConfigurationTarget.Global);
 
-      await vscode.window.showInformationMessage(`Model set to ${picked}.`);
+      await vscode.window.showInformationMessage(
+        `Model set to ${picked.displayName ?? picked.id} (${providerLabel(picked.provider)}).`,
+      );
     }),
   );
 }
 
+/** Provider from a command argument, or picked by the user (current provider first). */
+async function pickProvider(
+  keys: ApiKeyStore,
+  arg: unknown,
+  placeHolder: string,
+): Promise<AIProvider | undefined> {
+  const withKeys = AI_PROVIDERS.filter(usesApiKey);
+  if (withKeys.includes(arg as AIProvider)) return arg as AIProvider;
+  const current = getSettings().provider;
+  const ordered = withKeys.includes(current)
+    ? [current, ...withKeys.filter((p) => p !== current)]
+    : withKeys;
+  const items = await Promise.all(
+    ordered.map(async (provider) => ({
+      label: providerLabel(provider),
+      description: [
+        provider === current ? "current provider" : "",
+        (await keys.has(provider)) ? "key stored" : "",
+      ]
+        .filter(Boolean)
+        .join(" · "),
+      provider,
+    })),
+  );
+  const picked = await vscode.window.showQuickPick(items, { placeHolder, ignoreFocusOut: true });
+  return picked?.provider;
+}
+
+function noChangesMessage(diff: GitDiffResult): string {
+  switch (diff.scope) {
+    case "unstaged":
+      return diff.stagedFiles.length > 0
+        ? `No unstaged changes found. Nothing to review. (${diff.stagedFiles.length} staged file(s) not reviewed.)`
+        : "No unstaged changes found. Nothing to review.";
+    case "staged":
+      return diff.unstagedFiles.length > 0
+        ? `No staged changes found. Nothing to review. (${diff.unstagedFiles.length} unstaged file(s) not reviewed.)`
+        : "No staged changes found. Nothing to review.";
+    case "both":
+      return "No uncommitted changes found. Nothing to review.";
+    default:
+      return "No changes found. Nothing to review.";
+  }
+}
+
 export function deactivate() {}
@@ -0,0 +1,78 @@
+import * as vscode from "vscode";
+import { applySelection, listDiffFiles, type DiffFileChunk } from "./diffSelection";
+import type { GitDiffResult } from "./gitManager";
+
+const SELECTION_KEY = "vscodeCodeReview.changeSelection";
+
+type ChangePickItem = vscode.QuickPickItem & { key?: string };
+
+const STATE_LABELS: Record<DiffFileChunk["state"], string> = {
+  staged: "Staged",
+  unstaged: "Unstaged",
+  untracked: "Untracked (new files)",
+  committed: "Committed",
+};
+
+/**
+ * Let the user narrow a diff down to specific files or hunks before it is reviewed.
+ *
+ * Picking a file reviews all of it; picking individual hunks reviews only those.
+ * The selection is remembered per workspace (and repository) and pre-selected next time,
+ * dropping entries whose changes no longer exist.
+ *
+ * Returns the filtered diff, or undefined when the picker is dismissed.
+ */
+export async function pickChanges(
+  diff: GitDiffResult,
+  state: vscode.Memento,
+): Promise<GitDiffResult | undefined> {
+  const files = listDiffFiles(diff);
+  const available = new Set(files.flatMap((f) => [f.key, ...f.hunks.map((h) => h.key)]));
+
+  const repoKey = diff.repositoryRoot.toString();
+  const stored = state.get<Record<string, string[]>>(SELECTION_KEY) ?? {};
+  // Forget selections for changes that went away (committed, reverted or rewritten).
+  const remembered = new Set((stored[repoKey] ?? []).filter((k) => available.has(k)));
+
+  const items: ChangePickItem[] = [];
+  let lastState: DiffFileChunk["state"] | undefined;
+  for (const file of files) {
+    if (file.state !== lastState) {
+      items.push({ label: STATE_LABELS[file.state], kind: vscode.QuickPickItemKind.Separator });
+      lastState = file.state;
+    }
+    items.push({
+      key: file.key,
+      label: `$(file) ${file.path}`,
+      description: file.binary
+        ? "binary"
+        : file.hunks.length === 1
+          ? "1 hunk"
+          : `${file.hunks.length} hunks`,
+      picked: remembered.size === 0 || remembered.has(file.key),
+    });
+    // Single-hunk files are fully covered by their file entry.
+    if (file.hunks.length < 2) continue;
+    for (const hunk of file.hunks) {
+      items.push({
+        key: hunk.key,
+        label: `$(diff) ${hunk.header}`,
+        description: `+${hunk.added} -${hunk.removed}`,
+        picked: remembered.has(hunk.key),
+      });
+    }
+  }
+
+  const picked = await vscode.window.showQuickPick(items, {
+    title: "Select Changes to Review",
+    placeHolder: "Pick whole files, or only specific hunks of a file",
+    canPickMany: true,
+    matchOnDescription: true,
+    ignoreFocusOut: true,
+  });
+  if (!picked) return undefined;
+
+  const selected = new Set(picked.flatMap((i) => (i.key ? [i.key] : [])));
+  await state.update(SELECTION_KEY, { ...stored, [repoKey]: [...selected] });
+  return applySelection(diff, selected);
+}
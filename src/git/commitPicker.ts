@@ -0,0 +1,65 @@
+import * as vscode from "vscode";
+import { shortSha, type CommitInfo } from "./gitManager";
+
+interface CommitPickItem extends vscode.QuickPickItem {
+  commit: CommitInfo;
+  index: number;
+}
+
+// A typed `<from>..<to>` range or a bare (abbreviated) SHA.
+const TYPED_SPEC = /^(\S*\.\.\S+|[0-9a-fA-F]{4,40})$/;
+
+/**
+ * Let the user pick commits to review. One selection reviews that commit; several are
+ * reviewed as one contiguous range from the oldest to the newest selected. A range such
+ * as `abc123..def456` can also be typed into the filter box.
+ *
+ * Returns a spec for `GitManager.getCommitChanges`, or undefined when dismissed.
+ */
+export function pickCommitSpec(commits: CommitInfo[]): Promise<string | undefined> {
+  const qp = vscode.window.createQuickPick<CommitPickItem>();
+  qp.title = "Review Commits";
+  qp.placeholder = "Select commit(s) to review, or type a range like abc123..def456";
+  qp.canSelectMany = true;
+  qp.matchOnDescription = true;
+  qp.matchOnDetail = true;
+  qp.ignoreFocusOut = true;
+  qp.items = commits.map((commit, index) => ({
+    commit,
+    index,
+    label: `$(git-commit) ${commit.subject}`,
+    description: `${shortSha(commit.sha)} · ${commit.author}`,
+    detail: commit.date,
+  }));
+
+  return new Promise((resolve) => {
+    let settled = false;
+
+    qp.onDidAccept(() => {
+      // `commits` is newest first, so the lowest index is the newest selection.
+      const picked = [...qp.selectedItems].sort((a, b) => a.index - b.index);
+      const typed = qp.value.trim();
+
+      let spec: string | undefined;
+      if (picked.length === 1) {
+        spec = picked[0].commit.sha;
+      } else if (picked.length > 1) {
+        spec = `${picked[picked.length - 1].commit.sha}^..${picked[0].commit.sha}`;
+      } else if (TYPED_SPEC.test(typed)) {
+        spec = typed;
+      }
+      if (!spec) return;
+
+      settled = true;
+      resolve(spec);
+      qp.hide();
+    });
+
+    qp.onDidHide(() => {
+      if (!settled) resolve(undefined);
+      qp.dispose();
+    });
+
+    qp.show();
+  });
+}
@@ -0,0 +1,247 @@
+/**
+ * Unified diff model for `git diff` output: files -> hunks -> lines, with old/new line
+ * numbers. Used to stitch partial diffs, to tell the model which lines changed, and to
+ * check that findings and fixes actually point at changed code.
+ */
+
+export type DiffLineKind = "add" | "del" | "context";
+
+export interface DiffLine {
+  kind: DiffLineKind;
+  content: string;
+  /** 1-based line in the old file (null for added lines). */
+  oldLine: number | null;
+  /** 1-based line in the new file (null for removed lines). */
+  newLine: number | null;
+}
+
+export interface DiffHunk {
+  header: string;
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+  /** Raw diff lines including the `@@` header, for re-assembling partial diffs. */
+  raw: string[];
+}
+
+export type FileChangeType = "added" | "deleted" | "modified" | "renamed" | "copied";
+
+export interface DiffFile {
+  /** Path before the change (null for added files). */
+  oldPath: string | null;
+  /** Path after the change (null for deleted files). */
+  newPath: string | null;
+  /** `newPath ?? oldPath`: the path findings are expected to use. */
+  path: string;
+  change: FileChangeType;
+  binary: boolean;
+  /** Raw lines before the first hunk (`diff --git`, `index`, `---`/`+++`, ...). */
+  headerLines: string[];
+  hunks: DiffHunk[];
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/** Strip git's C-style quoting (`"a/with space"`) and the `a/` / `b/` prefix. */
+function unquotePath(raw: string, prefix: "a/" | "b/"): string | null {
+  let p = raw.trim();
+  if (p === "/dev/null") return null;
+  if (p.startsWith('"') && p.endsWith('"')) {
+    p = p
+      .slice(1, -1)
+      .replace(/\\(["\\])/g, "$1")
+      .replace(/\\t/g, "\t")
+      .replace(/\\n/g, "\n");
+  }
+  return p.startsWith(prefix) ? p.slice(prefix.length) : p;
+}
+
+function pathsFromDiffGitLine(line: string): { oldPath: string | null; newPath: string | null } {
+  const rest = line.slice("diff --git ".length);
+  // Quoted form: "a/x y" "b/x y"
+  const quoted = /^("(?:[^"\\]|\\.)*")\s+("(?:[^"\\]|\\.)*")$/.exec(rest);
+  if (quoted) {
+    return { oldPath: unquotePath(quoted[1], "a/"), newPath: unquotePath(quoted[2], "b/") };
+  }
+  // Unquoted: split on " b/" (ambiguous for paths containing " b/"; ---/+++ lines win later).
+  const idx = rest.indexOf(" b/");
+  if (rest.startsWith("a/") && idx !== -1) {
+    return { oldPath: rest.slice(2, idx), newPath: rest.slice(idx + 3) };
+  }
+  return { oldPath: null, newPath: null };
+}
+
+export function parseUnifiedDiff(diff: string): DiffFile[] {
+  const files: DiffFile[] = [];
+  const lines = diff.endsWith("\n") ? diff.slice(0, -1).split("\n") : diff.split("\n");
+
+  let file: DiffFile | undefined;
+  let hunk: DiffHunk | undefined;
+  let oldLine = 0;
+  let newLine = 0;
+  // Lines still expected in the current hunk, per its header counts.
+  let oldLeft = 0;
+  let newLeft = 0;
+
+  const finishFile = () => {
+    if (!file) return;
+    file.path = file.newPath ?? file.oldPath ?? "";
+    if (
+      file.change === "modified" &&
+      file.oldPath &&
+      file.newPath &&
+      file.oldPath !== file.newPath
+    ) {
+      file.change = "renamed";
+    }
+    files.push(file);
+  };
+
+  for (const line of lines) {
+    if (line.startsWith("diff --git ")) {
+      finishFile();
+      const { oldPath, newPath } = pathsFromDiffGitLine(line);
+      file = {
+        oldPath,
+        newPath,
+        path: "",
+        change: "modified",
+        binary: false,
+        headerLines: [line],
+        hunks: [],
+      };
+      hunk = undefined;
+      continue;
+    }
+    if (!file) continue;
+
+    const m = HUNK_HEADER.exec(line);
+    if (m) {
+      hunk = {
+        header: line,
+        oldStart: Number(m[1]),
+        oldLines: m[2] === undefined ? 1 : Number(m[2]),
+        newStart: Number(m[3]),
+        newLines: m[4] === undefined ? 1 : Number(m[4]),
+        lines: [],
+        raw: [line],
+      };
+      file.hunks.push(hunk);
+      oldLine = hunk.oldStart;
+      newLine = hunk.newStart;
+      oldLeft = hunk.oldLines;
+      newLeft = hunk.newLines;
+      continue;
+    }
+
+    if (!hunk) {
+      file.headerLines.push(line);
+      if (line.startsWith("new file mode")) file.change = "added";
+      else if (line.startsWith("deleted file mode")) file.change = "deleted";
+      else if (line.startsWith("rename from ")) {
+        file.oldPath = line.slice("rename from ".length);
+        file.change = "renamed";
+      } else if (line.startsWith("rename to ")) {
+        file.newPath = line.slice("rename to ".length);
+        file.change = "renamed";
+      } else if (line.startsWith("copy from ")) {
+        file.oldPath = line.slice("copy from ".length);
+        file.change = "copied";
+      } else if (line.startsWith("copy to ")) {
+        file.newPath = line.slice("copy to ".length);
+        file.change = "copied";
+      } else if (line.startsWith("--- ")) {
+        const p = unquotePath(line.slice(4), "a/");
+        if (p === null) file.change = "added";
+        file.oldPath = p;
+      } else if (line.startsWith("+++ ")) {
+        const p = unquotePath(line.slice(4), "b/");
+        if (p === null) file.change = "deleted";
+        file.newPath = p;
+      } else if (line.startsWith("Binary files ") || line === "GIT binary patch") {
+        file.binary = true;
+      }
+      if (file.change === "added") file.oldPath = null;
+      if (file.change === "deleted") file.newPath = null;
+      continue;
+    }
+
+    if (line.startsWith("\\")) {
+      // "\ No newline at end of file" carries no line number.
+      hunk.raw.push(line);
+      continue;
+    }
+    if (oldLeft <= 0 && newLeft <= 0) continue;
+
+    hunk.raw.push(line);
+    if (line.startsWith("+")) {
+      hunk.lines.push({ kind: "add", content: line.slice(1), oldLine: null, newLine: newLine++ });
+      newLeft--;
+    } else if (line.startsWith("-")) {
+      hunk.lines.push({ kind: "del", content: line.slice(1), oldLine: oldLine++, newLine: null });
+      oldLeft--;
+    } else {
+      // Context; some tools strip the leading space of blank context lines.
+      hunk.lines.push({
+        kind: "context",
+        content: line.slice(1),
+        oldLine: oldLine++,
+        newLine: newLine++,
+      });
+      oldLeft--;
+      newLeft--;
+    }
+  }
+  finishFile();
+  return files;
+}
+
+/**
+ * New-file line numbers touched by each file's changes. Pure deletions have no new-side
+ * line, so the line they were removed before stands in for them.
+ */
+export function changedLineMap(files: DiffFile[]): Map<string, Set<number>> {
+  const map = new Map<string, Set<number>>();
+  for (const file of files) {
+    if (!file.newPath) continue;
+    const set = map.get(file.path) ?? new Set<number>();
+    for (const hunk of file.hunks) {
+      let nextNew = hunk.newStart;
+      for (const line of hunk.lines) {
+        if (line.kind === "add" && line.newLine !== null) set.add(line.newLine);
+        else if (line.kind === "del") set.add(Math.max(1, nextNew));
+        if (line.newLine !== null) nextNew = line.newLine + 1;
+      }
+    }
+    map.set(file.path, set);
+  }
+  return map;
+}
+
+/** Collapse sorted line numbers into "a-b" ranges, e.g. [1,2,3,7] -> "1-3, 7". */
+export function formatLineRanges(lines: Iterable<number>): string {
+  const sorted = [...lines].sort((a, b) => a - b);
+  const parts: string[] = [];
+  for (let i = 0; i < sorted.length; i++) {
+    const start = sorted[i];
+    while (i + 1 < sorted.length && sorted[i + 1] === sorted[i] + 1) i++;
+    parts.push(start === sorted[i] ? `${start}` : `${start}-${sorted[i]}`);
+  }
+  return parts.join(", ");
+}
+
+export function countChangedLines(files: DiffFile[]): { added: number; removed: number } {
+  let added = 0;
+  let removed = 0;
+  for (const file of files) {
+    for (const hunk of file.hunks) {
+      for (const line of hunk.lines) {
+        if (line.kind === "add") added++;
+        else if (line.kind === "del") removed++;
+      }
+    }
+  }
+  return { added, removed };
+}
@@ -0,0 +1,115 @@
+import { createHash } from "crypto";
+import { relativeToRoot, type PathRef } from "../context/paths";
+import { parseUnifiedDiff } from "./diffParser";
+import type { GitDiffResult } from "./gitDiff";
+
+/** Sections of a `GitDiffResult` that can be narrowed down before a review. */
+export type SelectableState = "staged" | "unstaged" | "untracked" | "committed";
+
+export interface DiffHunkChunk {
+  /**
+   * File key, `@@` range and a hash of the body: identical bodies in one file (a repeated
+   * edit) still get distinct keys. Lines shifting above the hunk change its key.
+   */
+  key: string;
+  header: string;
+  lines: string[];
+  added: number;
+  removed: number;
+}
+
+export interface DiffFileChunk {
+  state: SelectableState;
+  key: string;
+  path: string;
+  binary: boolean;
+  headerLines: string[];
+  hunks: DiffHunkChunk[];
+}
+
+const SECTIONS: {
+  state: SelectableState;
+  diff: "stagedDiff" | "unstagedDiff" | "untrackedDiff" | "committedDiff";
+  files: "stagedFiles" | "unstagedFiles" | "untrackedFiles" | "committedFiles";
+}[] = [
+  { state: "staged", diff: "stagedDiff", files: "stagedFiles" },
+  { state: "unstaged", diff: "unstagedDiff", files: "unstagedFiles" },
+  { state: "untracked", diff: "untrackedDiff", files: "untrackedFiles" },
+  { state: "committed", diff: "committedDiff", files: "committedFiles" },
+];
+
+function shortHash(text: string): string {
+  return createHash("sha1").update(text).digest("hex").slice(0, 12);
+}
+
+export function fileKey(state: SelectableState, path: string): string {
+  return `${state}:${path}`;
+}
+
+/**
+ * Split `git diff` output into per-file chunks and their hunks, keeping the raw lines so
+ * a subset can be stitched back into a valid diff.
+ */
+export function splitDiff(diff: string, state: SelectableState): DiffFileChunk[] {
+  return parseUnifiedDiff(diff).map((file) => {
+    const key = fileKey(state, file.path);
+    return {
+      state,
+      key,
+      path: file.path,
+      binary: file.binary,
+      headerLines: file.headerLines,
+      hunks: file.hunks.map((h) => {
+        const range = `@@ -${h.oldStart},${h.oldLines} +${h.newStart},${h.newLines} @@`;
+        return {
+          key: `${key}:${range}:${shortHash(h.raw.slice(1).join("\n"))}`,
+          header: h.header,
+          lines: h.raw,
+          added: h.lines.filter((l) => l.kind === "add").length,
+          removed: h.lines.filter((l) => l.kind === "del").length,
+        };
+      }),
+    };
+  });
+}
+
+/** All reviewable files in the diff, section by section. */
+export function listDiffFiles(diff: GitDiffResult<PathRef>): DiffFileChunk[] {
+  return SECTIONS.flatMap((s) => splitDiff(diff[s.diff], s.state));
+}
+
+/**
+ * Keep only the selected parts of `diff`. A selected file key keeps the whole file;
+ * otherwise only its selected hunk keys are kept. Files with nothing selected are dropped.
+ */
+export function applySelection<D extends GitDiffResult<PathRef>>(
+  diff: D,
+  selected: ReadonlySet<string>,
+): D {
+  const result: D = { ...diff };
+  let totalLines = 0;
+
+  for (const section of SECTIONS) {
+    const kept: string[] = [];
+    const keptPaths = new Set<string>();
+
+    for (const file of splitDiff(diff[section.diff], section.state)) {
+      const wholeFile = selected.has(file.key);
+      const hunks = wholeFile ? file.hunks : file.hunks.filter((h) => selected.has(h.key));
+      if (!wholeFile && hunks.length === 0) continue;
+
+      const fileLines = [...file.headerLines, ...hunks.flatMap((h) => h.lines)];
+      kept.push(fileLines.join("\n"));
+      keptPaths.add(file.path);
+      totalLines += hunks.reduce((n, h) => n + h.added + h.removed, 0);
+    }
+
+    result[section.diff] = kept.length > 0 ? `${kept.join("\n")}\n` : "";
+    result[section.files] = diff[section.files].filter((u) =>
+      keptPaths.has(relativeToRoot(diff.repositoryRoot, u)),
+    );
+  }
+
+  result.totalLines = totalLines;
+  return result;
+}
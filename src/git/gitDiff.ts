@@ -0,0 +1,134 @@
+import type * as vscode from "vscode";
+import type { PathRef } from "../context/paths";
+import { countChangedLines, parseUnifiedDiff } from "./diffParser";
+
+// Diff model and git helpers that do not depend on VS Code, shared by `GitManager` and the CLI.
+
+/** Which part of the working copy a review covers. */
+export type ReviewScope = "unstaged" | "staged" | "both";
+
+export const REVIEW_SCOPES: readonly ReviewScope[] = ["unstaged", "staged", "both"];
+
+export function isReviewScope(value: unknown): value is ReviewScope {
+  return typeof value === "string" && (REVIEW_SCOPES as readonly string[]).includes(value);
+}
+
+/** Working-copy scopes plus committed-history reviews. */
+export type DiffScope = ReviewScope | "branch" | "commits";
+
+export interface CommitInfo {
+  sha: string;
+  author: string;
+  email: string;
+  /** ISO 8601 author date. */
+  date: string;
+  subject: string;
+}
+
+/** A committed range under review: the diff from `base` to `head`. */
+export interface DiffRange {
+  base: string;
+  head: string;
+  /** Human-readable description, e.g. "main...feature (1a2b3c4..5d6e7f8)". */
+  label: string;
+}
+
+export interface GitDiffResult<U extends PathRef = vscode.Uri> {
+  /** Repository the diff came from; file paths in the review are relative to it. */
+  repositoryRoot: U;
+  scope: DiffScope;
+  // Each diff is empty when its state is outside `scope`.
+  unstagedDiff: string;
+  stagedDiff: string;
+  /** Synthesized "new file" diffs for untracked files (part of the unstaged scope). */
+  untrackedDiff: string;
+  committedDiff: string;
+  stagedFiles: U[];
+  /** Tracked files with working-tree changes (untracked files are in `untrackedFiles`). */
+  unstagedFiles: U[];
+  untrackedFiles: U[];
+  committedFiles: U[];
+  range?: DiffRange;
+  /** Commits in `range`, newest first (commit reviews only). */
+  commits?: CommitInfo[];
+  /** Untracked files left out of `untrackedDiff` because they are too large or binary. */
+  skippedFiles?: SkippedFile[];
+  /** Changed (added + removed) lines across all sections. */
+  totalLines: number;
+}
+
+export interface SkippedFile {
+  /** Repository-relative path. */
+  path: string;
+  reason: string;
+}
+
+// Untracked files larger than this are listed as skipped instead of inlined into the diff.
+export const MAX_UNTRACKED_FILE_BYTES = 200_000;
+
+// Unit/record separators keep subjects with arbitrary punctuation intact.
+export const LOG_FORMAT = "--format=%H%x1f%an%x1f%ae%x1f%aI%x1f%s%x1e";
+
+/** Parse `git log` output produced with `LOG_FORMAT`. */
+export function parseLog(out: string): CommitInfo[] {
+  return out
+    .split("\x1e")
+    .map((record) => record.trim())
+    .filter(Boolean)
+    .map((record) => {
+      const [sha, author, email, date, subject] = record.split("\x1f");
+      return { sha, author, email, date, subject: subject ?? "" };
+    });
+}
+
+// git's well-known empty tree object: the "parent" of a root commit when diffing.
+export const EMPTY_TREE = "4b825dc642cb6eb9a060e54bf8d69288fbee4904";
+
+export function shortSha(sha: string): string {
+  return sha.slice(0, 7);
+}
+
+/** True when the diff has nothing to review in any of its sections. */
+export function isEmptyDiff(diff: GitDiffResult<PathRef>): boolean {
+  return ![diff.unstagedDiff, diff.stagedDiff, diff.untrackedDiff, diff.committedDiff].some((d) =>
+    d.trim(),
+  );
+}
+
+/** Unified diff that adds `text` as a new file at `rel` (what `git diff` shows after `git add -N`). */
+export function newFileDiff(rel: string, text: string): string {
+  if (text.length === 0) {
+    return `diff --git a/${rel} b/${rel}\nnew file mode 100644\n`;
+  }
+  const endsWithNewline = text.endsWith("\n");
+  const lines = (endsWithNewline ? text.slice(0, -1) : text).split("\n");
+  const body = lines.map((l) => `+${l}`).join("\n");
+  return [
+    `diff --git a/${rel} b/${rel}`,
+    "new file mode 100644",
+    "--- /dev/null",
+    `+++ b/${rel}`,
+    `@@ -0,0 +1${lines.length === 1 ? "" : `,${lines.length}`} @@`,
+    body,
+    ...(endsWithNewline ? [] : ["\\ No newline at end of file"]),
+    "",
+  ].join("\n");
+}
+
+/**
+ * `diff` with the section of file `rel` replaced by `section` (a complete `diff --git`
+ * section, or "" to remove it). Appended when the file had no section yet.
+ */
+export function replaceFileDiff(diff: string, rel: string, section: string): string {
+  const sections = diff.split(/(?=^diff --git )/m).filter(Boolean);
+  const header = `diff --git a/${rel} b/${rel}`;
+  const index = sections.findIndex((s) => s.split("\n", 1)[0] === header);
+  if (index === -1) return section ? [...sections, section].join("") : diff;
+  sections.splice(index, 1, ...(section ? [section] : []));
+  return sections.join("");
+}
+
+export function countLines(diff: string): number {
+  const { added, removed } = countChangedLines(parseUnifiedDiff(diff));
+  return added + removed;
+}
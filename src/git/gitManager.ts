@@ -1,4 +1,37 @@
+import { execFile } from "child_process";
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
 import * as vscode from "vscode";
+import { isProbablyBinaryPath, shouldIgnorePath } from "../context/ignore";
+import {
+  countLines,
+  EMPTY_TREE,
+  LOG_FORMAT,
+  MAX_UNTRACKED_FILE_BYTES,
+  newFileDiff,
+  parseLog,
+  replaceFileDiff,
+  shortSha,
+  type CommitInfo,
+  type DiffRange,
+  type DiffScope,
+  type GitDiffResult,
+  type ReviewScope,
+  type SkippedFile,
+} from "./gitDiff";
+
+export {
+  isEmptyDiff,
+  isReviewScope,
+  REVIEW_SCOPES,
+  shortSha,
+  type CommitInfo,
+  type DiffRange,
+  type DiffScope,
+  type GitDiffResult,
+  type ReviewScope,
+} from "./gitDiff";
 
 // Minimal typings for the built-in VS Code Git extension API.
 interface GitExtension {
@@ -7,30 +40,47 @@ interface GitExtension {
 }
 
 interface GitAPI {
+  readonly git: { readonly path: string };
   readonly repositories: Repository[];
 }
 
 interface Repository {
   readonly rootUri: vscode.Uri;
   readonly state: RepositoryState;
+  readonly inputBox: { value: string };
   diff(cached?: boolean): Promise<string>;
+  commit(message: string): Promise<void>;
+  getMergeBase(ref1: string, ref2: string): Promise<string | undefined>;
 }
 
 interface RepositoryState {
+  readonly HEAD: Branch | undefined;
   readonly workingTreeChanges: Change[];
   readonly indexChanges: Change[];
   readonly mergeChanges: Change[];
+  // Only populated when `git.untrackedChanges` is "separate" (newer VS Code versions).
+  readonly untrackedChanges?: Change[];
+}
+
+interface Branch {
+  readonly name?: string;
+  readonly commit?: string;
 }
 
 interface Change {
   readonly uri: vscode.Uri;
+  readonly status: number;
 }
 
-export interface GitDiffResult {
-  unstagedDiff: string;
-  stagedFiles: vscode.Uri[];
-  unstagedFiles: vscode.Uri[];
-  totalLines: number;
+// `Status.UNTRACKED` in the Git extension API.
+const STATUS_UNTRACKED = 7;
+
+export interface RepositoryInfo {
+  rootUri: vscode.Uri;
+  /** Folder name of the repository root. */
+  name: string;
+  stagedCount: number;
+  unstagedCount: number;
 }
 
 export class GitManager {
@@ -53,10 +103,42 @@ export class GitManager {
     return api;
   }
 
-  private getRepository(): Repository | undefined {
+  private getRepository(rootUri?: vscode.Uri): Repository | undefined {
     const api = this.getGitAPI();
     if (!api || api.repositories.length === 0) return undefined;
-    return api.repositories[0];
+    if (!rootUri) return api.repositories[0];
+    return api.repositories.find((r) => r.rootUri.toString() === rootUri.toString());
+  }
+
+  private requireRepository(rootUri?: vscode.Uri): Repository {
+    const repo = this.getRepository(rootUri);
+    if (!repo) {
+      throw new Error(
+        rootUri
+          ? `No Git repository found at ${rootUri.fsPath}.`
+          : "No Git repository found in the current workspace.",
+      );
+    }
+    return repo;
+  }
+
+  listRepositories(): RepositoryInfo[] {
+    return (this.getGitAPI()?.repositories ?? []).map((repo) => ({
+      rootUri: repo.rootUri,
+      name: path.basename(repo.rootUri.fsPath),
+      stagedCount: repo.state.indexChanges.length,
+      unstagedCount: repo.state.workingTreeChanges.length,
+    }));
+  }
+
+  /** Repository containing `uri` (the innermost one for nested repositories). */
+  findRepositoryFor(uri: vscode.Uri): RepositoryInfo | undefined {
+    return this.listRepositories()
+      .filter((r) => {
+        const root = r.rootUri.fsPath;
+        return uri.fsPath === root || uri.fsPath.startsWith(root + path.sep);
+      })
+      .sort((a, b) => b.rootUri.fsPath.length - a.rootUri.fsPath.length)[0];
   }
 
   isGitAvailable(): boolean {
@@ -67,8 +149,8 @@ export class GitManager {
     return this.getRepository() !== undefined;
   }
 
-  hasUncommittedChanges(): boolean {
-    const repo = this.getRepository();
+  hasUncommittedChanges(rootUri?: vscode.Uri): boolean {
+    const repo = this.getRepository(rootUri);
     if (!repo) return false;
     const s = repo.state;
     return (
@@ -76,21 +158,342 @@ export class GitManager {
     );
   }
 
-  async getUnstagedChanges(): Promise<GitDiffResult> {
-    const repo = this.getRepository();
-    if (!repo) {
-      throw new Error("No Git repository found in the current workspace.");
-    }
+  async getChanges(scope: ReviewScope, rootUri?: vscode.Uri): Promise<GitDiffResult> {
+    const repo = this.requireRepository(rootUri);
 
-    const unstagedDiff = await repo.diff(false);
+    const includeUnstaged = scope === "unstaged" || scope === "both";
+    const includeStaged = scope === "staged" || scope === "both";
+
+    const unstagedDiff = includeUnstaged ? ((await repo.diff(false)) ?? "") : "";
+    const stagedDiff = includeStaged ? ((await repo.diff(true)) ?? "") : "";
+    const untracked = includeUnstaged
+      ? await this.getUntrackedChanges(repo)
+      : { diff: "", files: [], skipped: [] };
     const stagedFiles = repo.state.indexChanges.map((c) => c.uri);
-    const unstagedFiles = repo.state.workingTreeChanges.map((c) => c.uri);
+    const unstagedFiles = repo.state.workingTreeChanges
+      .filter((c) => c.status !== STATUS_UNTRACKED)
+      .map((c) => c.uri);
 
     return {
-      unstagedDiff: unstagedDiff ?? "",
+      repositoryRoot: repo.rootUri,
+      scope,
+      unstagedDiff,
+      stagedDiff,
+      untrackedDiff: untracked.diff,
+      committedDiff: "",
       stagedFiles,
       unstagedFiles,
-      totalLines: (unstagedDiff ?? "").split("\n").length,
+      untrackedFiles: untracked.files,
+      committedFiles: [],
+      ...(untracked.skipped.length > 0 ? { skippedFiles: untracked.skipped } : {}),
+      totalLines: countLines(unstagedDiff) + countLines(stagedDiff) + countLines(untracked.diff),
+    };
+  }
+
+  /**
+   * `git diff` never includes untracked files, so build "new file" diffs for them from disk.
+   * Ignored files are left out; binary and oversized files are listed as skipped.
+   */
+  private async getUntrackedChanges(
+    repo: Repository,
+  ): Promise<{ diff: string; files: vscode.Uri[]; skipped: SkippedFile[] }> {
+    const changes = [
+      ...repo.state.workingTreeChanges.filter((c) => c.status === STATUS_UNTRACKED),
+      ...(repo.state.untrackedChanges ?? []),
+    ];
+
+    const seen = new Set<string>();
+    const parts: string[] = [];
+    const files: vscode.Uri[] = [];
+    const skipped: SkippedFile[] = [];
+    for (const change of changes) {
+      const rel = path.relative(repo.rootUri.fsPath, change.uri.fsPath).replaceAll("\\", "/");
+      if (seen.has(rel)) continue;
+      seen.add(rel);
+      if (shouldIgnorePath(rel)) continue;
+      if (isProbablyBinaryPath(rel)) {
+        skipped.push({ path: rel, reason: "binary" });
+        continue;
+      }
+
+      let text: string;
+      try {
+        const bytes = await vscode.workspace.fs.readFile(change.uri);
+        if (bytes.byteLength > MAX_UNTRACKED_FILE_BYTES) {
+          skipped.push({ path: rel, reason: `too large (${bytes.byteLength} bytes)` });
+          continue;
+        }
+        text = Buffer.from(bytes).toString("utf8");
+      } catch {
+        // Directories or files deleted since the status refresh.
+        continue;
+      }
+      if (/[\x00-\x08\x0E-\x1F]/.test(text)) {
+        skipped.push({ path: rel, reason: "binary" });
+        continue;
+      }
+
+      parts.push(newFileDiff(rel, text));
+      files.push(change.uri);
+    }
+
+    return { diff: parts.join(""), files, skipped };
+  }
+
+  /**
+   * `diff` with its working-tree part taken from unsaved editor buffers instead of the
+   * files on disk: each dirty document's diff against the index replaces the one of its
+   * saved file. Lets idle background reviews see what is being typed.
+   */
+  async withUnsavedChanges(
+    diff: GitDiffResult,
+    docs: readonly vscode.TextDocument[],
+  ): Promise<GitDiffResult> {
+    if (diff.scope !== "unstaged" && diff.scope !== "both") return diff;
+    const repo = this.requireRepository(diff.repositoryRoot);
+    const result = { ...diff };
+    const tmp = await fs.mkdtemp(path.join(os.tmpdir(), "code-review-"));
+    try {
+      for (const doc of docs) {
+        const rel = path.relative(repo.rootUri.fsPath, doc.uri.fsPath).replaceAll("\\", "/");
+        const text = doc.getText();
+        if (result.untrackedFiles.some((u) => u.toString() === doc.uri.toString())) {
+          result.untrackedDiff = replaceFileDiff(result.untrackedDiff, rel, newFileDiff(rel, text));
+          continue;
+        }
+        let indexed: string;
+        try {
+          indexed = await this.exec(repo, ["show", "--end-of-options", `:${rel}`]);
+        } catch {
+          // Not in the index: ignored, or untracked and skipped.
+          continue;
+        }
+        const before = path.join(tmp, "index");
+        const after = path.join(tmp, "buffer");
+        await fs.writeFile(before, indexed);
+        await fs.writeFile(after, text);
+        // Exit code 1 only means the files differ.
+        const out = await this.exec(
+          repo,
+          ["diff", "--no-index", "--no-color", "--no-ext-diff", "--", before, after],
+          [1],
+        );
+        const hunks = out.slice(Math.max(0, out.search(/^@@/m)));
+        const section = out.trim()
+          ? `diff --git a/${rel} b/${rel}\n--- a/${rel}\n+++ b/${rel}\n${hunks}`
+          : "";
+        result.unstagedDiff = replaceFileDiff(result.unstagedDiff, rel, section);
+        const others = result.unstagedFiles.filter((u) => u.toString() !== doc.uri.toString());
+        result.unstagedFiles = section ? [...others, doc.uri] : others;
+      }
+    } finally {
+      await fs.rm(tmp, { recursive: true, force: true });
+    }
+    result.totalLines =
+      countLines(result.unstagedDiff) +
+      countLines(result.stagedDiff) +
+      countLines(result.untrackedDiff);
+    return result;
+  }
+
+  async getRecentCommits(maxEntries = 50, rootUri?: vscode.Uri): Promise<CommitInfo[]> {
+    const repo = this.requireRepository(rootUri);
+    return this.log(repo, [`--max-count=${maxEntries}`, "HEAD"]);
+  }
+
+  /**
+   * Diff a single commit (`<sha>`) or a range (`<from>..<to>`, git semantics: commits
+   * reachable from `to` but not from `from`). `<sha>^..<to>` includes `<sha>` itself,
+   * even when it is the root commit.
+   */
+  async getCommitChanges(spec: string, rootUri?: vscode.Uri): Promise<GitDiffResult> {
+    const repo = this.requireRepository(rootUri);
+
+    const trimmed = spec.trim();
+    const sep = trimmed.indexOf("..");
+    const fromSpec = sep === -1 ? `${trimmed}^` : trimmed.slice(0, sep) || "HEAD";
+    const toSpec = sep === -1 ? trimmed : trimmed.slice(sep + 2) || "HEAD";
+    if (!toSpec || toSpec.startsWith(".")) {
+      throw new Error(`Invalid commit or range: "${spec}". Use <sha> or <from>..<to>.`);
+    }
+
+    const head = await this.revParseCommit(repo, toSpec);
+    const base = await this.revParseBase(repo, fromSpec);
+    const commits = await this.log(
+      repo,
+      base === EMPTY_TREE ? ["--max-count=200", head] : ["--max-count=200", `${base}..${head}`],
+    );
+
+    const label =
+      commits.length === 1
+        ? `${shortSha(commits[0].sha)} ${commits[0].subject}`
+        : `${base === EMPTY_TREE ? "(root)" : shortSha(base)}..${shortSha(head)} (${commits.length} commits)`;
+    const result = await this.getRangeChanges(repo, "commits", { base, head, label });
+    return { ...result, commits };
+  }
+
+  /**
+   * Diff the current branch (committed changes only) against its merge-base with `baseBranch`.
+   * Falls back to `origin/<baseBranch>` when there is no local branch of that name.
+   */
+  async getBranchChanges(baseBranch: string, rootUri?: vscode.Uri): Promise<GitDiffResult> {
+    const repo = this.requireRepository(rootUri);
+
+    const baseRef = await this.resolveRef(repo, [baseBranch, `origin/${baseBranch}`]);
+    if (!baseRef) {
+      throw new Error(`Base branch "${baseBranch}" was not found (locally or on origin).`);
+    }
+
+    const mergeBase = await repo.getMergeBase(baseRef, "HEAD");
+    if (!mergeBase) {
+      throw new Error(`Could not find a merge-base between ${baseRef} and HEAD.`);
+    }
+
+    const head = (await this.exec(repo, ["rev-parse", "HEAD"])).trim();
+    const headName = repo.state.HEAD?.name ?? shortSha(head);
+    const range: DiffRange = {
+      base: mergeBase,
+      head,
+      label: `${baseRef}...${headName} (${shortSha(mergeBase)}..${shortSha(head)})`,
+    };
+    return this.getRangeChanges(repo, "branch", range);
+  }
+
+  private async getRangeChanges(
+    repo: Repository,
+    scope: DiffScope,
+    range: DiffRange,
+  ): Promise<GitDiffResult> {
+    const committedDiff = await this.exec(repo, [
+      "diff",
+      "--no-color",
+      "--no-ext-diff",
+      range.base,
+      range.head,
+    ]);
+    const names = await this.exec(repo, ["diff", "--name-only", "-z", range.base, range.head]);
+    const committedFiles = names
+      .split("\0")
+      .filter(Boolean)
+      .map((p) => vscode.Uri.joinPath(repo.rootUri, p));
+
+    return {
+      repositoryRoot: repo.rootUri,
+      scope,
+      unstagedDiff: "",
+      stagedDiff: "",
+      untrackedDiff: "",
+      committedDiff,
+      stagedFiles: repo.state.indexChanges.map((c) => c.uri),
+      unstagedFiles: repo.state.workingTreeChanges
+        .filter((c) => c.status !== STATUS_UNTRACKED)
+        .map((c) => c.uri),
+      untrackedFiles: [],
+      committedFiles,
+      range,
+      totalLines: countLines(committedDiff),
     };
   }
+
+  private async revParseCommit(repo: Repository, ref: string): Promise<string> {
+    try {
+      // `ref` is user input: `--end-of-options` keeps "-..." from being read as an option.
+      return (
+        await this.exec(repo, [
+          "rev-parse",
+          "--verify",
+          "--quiet",
+          "--end-of-options",
+          `${ref}^{commit}`,
+        ])
+      ).trim();
+    } catch {
+      throw new Error(`Unknown commit: ${ref}`);
+    }
+  }
+
+  /** Like `revParseCommit`, but the parent of a root commit (`<root>^`) is the empty tree. */
+  private async revParseBase(repo: Repository, ref: string): Promise<string> {
+    try {
+      return await this.revParseCommit(repo, ref);
+    } catch (err) {
+      if (ref.endsWith("^")) {
+        await this.revParseCommit(repo, ref.slice(0, -1));
+        return EMPTY_TREE;
+      }
+      throw err;
+    }
+  }
+
+  private async log(repo: Repository, args: string[]): Promise<CommitInfo[]> {
+    return parseLog(await this.exec(repo, ["log", LOG_FORMAT, ...args]));
+  }
+
+  /** First of `candidates` that resolves to a commit, or undefined. */
+  private async resolveRef(repo: Repository, candidates: string[]): Promise<string | undefined> {
+    for (const ref of candidates) {
+      try {
+        await this.exec(repo, [
+          "rev-parse",
+          "--verify",
+          "--quiet",
+          "--end-of-options",
+          `${ref}^{commit}`,
+        ]);
+        return ref;
+      } catch {
+        // try the next candidate
+      }
+    }
+    return undefined;
+  }
+
+  /** Tree object of the index: identifies exactly what the next commit will contain. */
+  async getStagedTree(rootUri: vscode.Uri): Promise<string> {
+    return (await this.exec(this.requireRepository(rootUri), ["write-tree"])).trim();
+  }
+
+  /** Text of a git object, e.g. `<sha>:path` or `:path` for the index. */
+  async showObject(rootUri: vscode.Uri, object: string): Promise<string> {
+    return this.exec(this.requireRepository(rootUri), ["show", "--end-of-options", object]);
+  }
+
+  /** Absolute path of `name` inside the repository's git directory (honours worktrees). */
+  async getGitPath(rootUri: vscode.Uri, name: string): Promise<string> {
+    const out = await this.exec(this.requireRepository(rootUri), ["rev-parse", "--git-path", name]);
+    return path.resolve(rootUri.fsPath, out.trim());
+  }
+
+  /** The message typed into the Source Control view's commit box. */
+  getCommitMessage(rootUri: vscode.Uri): string {
+    return this.requireRepository(rootUri).inputBox.value;
+  }
+
+  async commit(rootUri: vscode.Uri, message: string): Promise<void> {
+    const repo = this.requireRepository(rootUri);
+    await repo.commit(message);
+    repo.inputBox.value = "";
+  }
+
+  /**
+   * Run git in the repository root. The extension API has no whole-tree diff between
+   * commits, so committed-history reviews shell out to the same git binary VS Code uses.
+   */
+  private exec(repo: Repository, args: string[], okExitCodes: number[] = []): Promise<string> {
+    const gitPath = this.getGitAPI()?.git.path ?? "git";
+    return new Promise((resolve, reject) => {
+      execFile(
+        gitPath,
+        args,
+        { cwd: repo.rootUri.fsPath, maxBuffer: 64 * 1024 * 1024 },
+        (err, stdout, stderr) => {
+          if (err && !(typeof err.code === "number" && okExitCodes.includes(err.code))) {
+            reject(new Error(`git ${args[0]} failed: ${stderr.trim() || err.message}`));
+            return;
+          }
+          resolve(stdout);
+        },
+      );
+    });
+  }
 }
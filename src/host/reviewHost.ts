@@ -0,0 +1,57 @@
+import type { LanguageModelV2 } from "@ai-sdk/provider";
+import type { AIProvider, ExtensionSettings } from "../config/settingsCore";
+
+/**
+ * What the review pipeline needs from its environment. The extension implements it on top
+ * of the VS Code API (`vscodeHost.ts`), the CLI on top of Node (`cli/nodeHost.ts`), so the
+ * pipeline itself never imports `vscode` at runtime.
+ */
+
+export interface HostDirectoryEntry {
+  name: string;
+  type: "file" | "directory";
+}
+
+/** File access by absolute path. */
+export interface HostFileSystem {
+  readFile(filePath: string): Promise<Uint8Array>;
+  readDirectory(dirPath: string): Promise<HostDirectoryEntry[]>;
+  /** Files below `dirPath` (absolute paths), skipping dependency and build folders. */
+  findFiles(dirPath: string, maxResults: number): Promise<string[]>;
+}
+
+export interface ReviewHost {
+  fs: HostFileSystem;
+  getSettings(): ExtensionSettings;
+  getApiKey(provider: AIProvider): Promise<string | undefined>;
+  /** Tells the user where to configure a missing API key. */
+  apiKeyHint(provider: AIProvider): string;
+  /** Models provided by the host itself (the `vscodeLm` provider); absent in the CLI. */
+  hostModel?(modelId: string): Promise<LanguageModelV2>;
+  /**
+   * Text of a git object in the repository at `repoRoot`, e.g. `<sha>:src/a.ts` or
+   * `:src/a.ts` for the index. Absent when the host cannot run git.
+   */
+  gitShow?(repoRoot: string, object: string): Promise<string>;
+}
+
+/** The same host with some settings replaced, e.g. to review with another model. */
+export function withSettings(host: ReviewHost, overrides: Partial<ExtensionSettings>): ReviewHost {
+  return { ...host, getSettings: () => ({ ...host.getSettings(), ...overrides }) };
+}
+
+/** Line-oriented log sink; a VS Code `OutputChannel` satisfies it. */
+export interface ReviewLog {
+  appendLine(value: string): void;
+}
+
+// Folders never worth listing or searching; `shouldIgnorePath` filters the rest.
+export const IGNORED_DIRECTORIES = [
+  "node_modules",
+  ".git",
+  "dist",
+  "build",
+  "out",
+  "target",
+  "coverage",
+];
@@ -0,0 +1,47 @@
+import * as vscode from "vscode";
+import { createVscodeLmModel } from "../ai/vscodeLmModel";
+import { getSettings } from "../config/settings";
+import type { GitManager } from "../git/gitManager";
+import type { ApiKeyStore } from "../secrets/apiKeyStore";
+import {
+  IGNORED_DIRECTORIES,
+  type HostDirectoryEntry,
+  type HostFileSystem,
+  type ReviewHost,
+} from "./reviewHost";
+
+const vscodeFileSystem: HostFileSystem = {
+  readFile: async (filePath) => vscode.workspace.fs.readFile(vscode.Uri.file(filePath)),
+
+  readDirectory: async (dirPath) => {
+    const entries = await vscode.workspace.fs.readDirectory(vscode.Uri.file(dirPath));
+    return entries.flatMap(([name, type]): HostDirectoryEntry[] =>
+      type === vscode.FileType.Directory
+        ? [{ name, type: "directory" }]
+        : type === vscode.FileType.File
+          ? [{ name, type: "file" }]
+          : [],
+    );
+  },
+
+  findFiles: async (dirPath, maxResults) => {
+    // VS Code glob ignore is limited; callers add a regex filter on top.
+    const found = await vscode.workspace.findFiles(
+      new vscode.RelativePattern(vscode.Uri.file(dirPath), "**/*"),
+      `**/{${IGNORED_DIRECTORIES.join(",")}}/**`,
+      maxResults,
+    );
+    return found.map((u) => u.fsPath);
+  },
+};
+
+export function createVscodeHost(keys: ApiKeyStore, git: GitManager): ReviewHost {
+  return {
+    fs: vscodeFileSystem,
+    getSettings,
+    getApiKey: (provider) => keys.resolve(provider),
+    apiKeyHint: () => "Run “Code Review: Set API Key”.",
+    hostModel: createVscodeLmModel,
+    gitShow: (repoRoot, object) => git.showObject(vscode.Uri.file(repoRoot), object),
+  };
+}
@@ -0,0 +1,156 @@
+import * as vscode from "vscode";
+import { getSettings } from "../config/settings";
+import { isEmptyDiff, type GitDiffResult, type GitManager } from "../git/gitManager";
+import type { ReviewResult } from "../schema/reviewOutput";
+import type { SidebarProvider } from "../views/SidebarProvider";
+import { ReviewInProgressError, type ReviewController } from "./reviewController";
+import { isFiltered } from "./severity";
+
+/**
+ * Opt-in background reviews: after a save (or after a pause in editing) the repository of
+ * the touched file is reviewed once the debounce delay has passed. Results stay in the
+ * status bar until the user opens them. Idle reviews take unsaved editor contents into
+ * account, so they review what is being typed rather than the last save.
+ */
+export class AutoReviewer implements vscode.Disposable {
+  private readonly disposables: vscode.Disposable[] = [];
+  private readonly statusItem: vscode.StatusBarItem;
+  private timer: NodeJS.Timeout | undefined;
+  // Repositories touched since the last background review.
+  private readonly pending = new Map<string, vscode.Uri>();
+  private last: { diff: GitDiffResult; result: ReviewResult } | undefined;
+
+  constructor(
+    private readonly git: GitManager,
+    private readonly reviews: ReviewController,
+    private readonly sidebar: SidebarProvider,
+    private readonly output: vscode.OutputChannel,
+  ) {
+    this.statusItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 50);
+    this.statusItem.command = "vscodeCodeReview.showAutoReview";
+    this.disposables.push(
+      this.statusItem,
+      vscode.workspace.onDidSaveTextDocument((doc) => {
+        if (getSettings().autoReview === "onSave") this.touch(doc.uri);
+      }),
+      vscode.workspace.onDidChangeTextDocument((e) => {
+        if (getSettings().autoReview === "onIdle" && e.contentChanges.length > 0) {
+          this.touch(e.document.uri);
+        }
+      }),
+      vscode.workspace.onDidChangeConfiguration((e) => {
+        if (e.affectsConfiguration("vscodeCodeReview.autoReview") && !this.enabled()) {
+          this.reset();
+        }
+      }),
+    );
+  }
+
+  private enabled(): boolean {
+    return getSettings().autoReview !== "off";
+  }
+
+  private touch(uri: vscode.Uri): void {
+    if (uri.scheme !== "file") return;
+    const repo = this.git.findRepositoryFor(uri);
+    if (!repo) return;
+    this.pending.set(repo.rootUri.toString(), repo.rootUri);
+    this.schedule();
+  }
+
+  // Debounce: every save/edit pushes the review back by the full delay.
+  private schedule(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => void this.flush(), getSettings().autoReviewDelaySeconds * 1000);
+  }
+
+  private async flush(): Promise<void> {
+    this.timer = undefined;
+    if (!this.enabled() || this.pending.size === 0) return;
+    if (this.reviews.isReviewing) {
+      // Try again once the running review is likely done.
+      this.schedule();
+      return;
+    }
+
+    const roots = [...this.pending.values()];
+    this.pending.clear();
+    const { autoReview, autoReviewMinLines } = getSettings();
+
+    for (const root of roots) {
+      try {
+        let diff = await this.git.getChanges(this.sidebar.getReviewScope(), root);
+        if (autoReview === "onIdle") {
+          diff = await this.git.withUnsavedChanges(diff, this.unsavedDocuments(root));
+        }
+        if (isEmptyDiff(diff) || diff.totalLines < autoReviewMinLines) {
+          this.output.appendLine(
+            `[info] Auto-review skipped for ${root.fsPath}: ${diff.totalLines} changed line(s), minimum is ${autoReviewMinLines}`,
+          );
+          continue;
+        }
+        if (this.reviews.isReviewing) {
+          this.pending.set(root.toString(), root);
+          this.schedule();
+          return;
+        }
+        const result = await this.reviews.review(diff, { quiet: true });
+        this.last = { diff, result };
+        this.showStatus(result);
+      } catch (err) {
+        // A manual review started while this one was loading its diff.
+        if (err instanceof ReviewInProgressError) {
+          this.pending.set(root.toString(), root);
+          this.schedule();
+          return;
+        }
+        const msg = err instanceof Error ? err.message : String(err);
+        this.output.appendLine(`[error] Auto-review: ${msg}`);
+        this.statusItem.text = "$(warning) Code Review";
+        this.statusItem.tooltip = `Background review failed: ${msg}`;
+        this.statusItem.show();
+      }
+    }
+  }
+
+  private unsavedDocuments(root: vscode.Uri): vscode.TextDocument[] {
+    return vscode.workspace.textDocuments.filter(
+      (doc) =>
+        doc.isDirty &&
+        doc.uri.scheme === "file" &&
+        this.git.findRepositoryFor(doc.uri)?.rootUri.toString() === root.toString(),
+    );
+  }
+
+  private showStatus(result: ReviewResult): void {
+    const findings = result.findings.filter((f) => !isFiltered(f));
+    const count = findings.length;
+    const serious = findings.filter(
+      (f) => f.severity === "critical" || f.severity === "high",
+    ).length;
+    this.statusItem.text = `${serious > 0 ? "$(warning)" : "$(comment-discussion)"} ${count} finding${count === 1 ? "" : "s"}`;
+    this.statusItem.tooltip = `Background code review: ${count} finding(s), ${serious} critical/high. Click to open.`;
+    this.statusItem.show();
+  }
+
+  /** Open the latest background review in the review panel. */
+  showLast(): boolean {
+    if (!this.last) return false;
+    this.reviews.showResult(this.last.diff, this.last.result);
+    return true;
+  }
+
+  private reset(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = undefined;
+    this.pending.clear();
+    this.statusItem.hide();
+  }
+
+  dispose(): void {
+    this.reset();
+    while (this.disposables.length) {
+      this.disposables.pop()?.dispose();
+    }
+  }
+}
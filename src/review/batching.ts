@@ -0,0 +1,131 @@
+import { applySelection, listDiffFiles } from "../git/diffSelection";
+import type { PathRef } from "../context/paths";
+import type { GitDiffResult } from "../git/gitDiff";
+import type { ReviewedFinding, ReviewedFix, ReviewResult } from "../schema/reviewOutput";
+
+// Rough but provider-agnostic: ~4 characters per token for code and diffs.
+export const CHARS_PER_TOKEN = 4;
+
+function estimateTokens(lines: string[]): number {
+  return Math.ceil(lines.reduce((n, l) => n + l.length + 1, 0) / CHARS_PER_TOKEN);
+}
+
+interface BatchUnit {
+  keys: string[];
+  tokens: number;
+}
+
+/**
+ * Split a diff into batches of at most `maxTokens` (estimated) each, keeping files whole
+ * where possible. A file that alone exceeds the budget is split between its hunks.
+ * Returns `[diff]` unchanged when everything fits into one batch.
+ */
+export function splitIntoBatches<D extends GitDiffResult<PathRef>>(
+  diff: D,
+  maxTokens: number,
+): D[] {
+  const units: BatchUnit[] = [];
+  for (const file of listDiffFiles(diff)) {
+    const headerTokens = estimateTokens(file.headerLines);
+    const hunkTokens = file.hunks.map((h) => estimateTokens(h.lines));
+    const total = hunkTokens.reduce((a, b) => a + b, headerTokens);
+    if (total <= maxTokens || file.hunks.length < 2) {
+      units.push({ keys: [file.key], tokens: total });
+      continue;
+    }
+    let cur: BatchUnit = { keys: [], tokens: headerTokens };
+    file.hunks.forEach((hunk, i) => {
+      if (cur.keys.length > 0 && cur.tokens + hunkTokens[i] > maxTokens) {
+        units.push(cur);
+        cur = { keys: [], tokens: headerTokens };
+      }
+      cur.keys.push(hunk.key);
+      cur.tokens += hunkTokens[i];
+    });
+    units.push(cur);
+  }
+
+  const batches: BatchUnit[] = [];
+  for (const unit of units) {
+    const last = batches[batches.length - 1];
+    if (last && last.tokens + unit.tokens <= maxTokens) {
+      last.keys.push(...unit.keys);
+      last.tokens += unit.tokens;
+    } else {
+      batches.push({ keys: [...unit.keys], tokens: unit.tokens });
+    }
+  }
+
+  if (batches.length <= 1) return [diff];
+  return batches.map((b) => applySelection(diff, new Set(b.keys)));
+}
+
+/** Run `task` over `items` with at most `limit` in flight; results keep the input order. */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await task(items[i], i);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+  return results;
+}
+
+const normalizeTitle = (title: string) => title.toLowerCase().replace(/\s+/g, " ").trim();
+
+function findingKey(f: ReviewedFinding): string {
+  return [f.filePath ?? "", f.startLine ?? "", normalizeTitle(f.title)].join("|");
+}
+
+function fixKey(f: ReviewedFix): string {
+  return [f.filePath, f.startLine, f.endLine, f.replacement].join("|");
+}
+
+/**
+ * Merge per-batch results into one. Duplicate findings (same location and title) and
+ * duplicate fixes (same range and replacement) are kept once; fix ids are made unique.
+ */
+export function mergeReviewResults(results: ReviewResult[]): ReviewResult {
+  if (results.length === 1) return results[0];
+
+  const findings = new Map<string, ReviewedFinding>();
+  const fixes = new Map<string, ReviewedFix>();
+  const fixIds = new Set<string>();
+
+  for (const result of results) {
+    for (const f of result.findings) {
+      const key = findingKey(f);
+      if (!findings.has(key)) findings.set(key, f);
+    }
+    for (const f of result.fixes) {
+      const key = fixKey(f);
+      if (fixes.has(key)) continue;
+      let id = f.id;
+      for (let n = 2; fixIds.has(id); n++) id = `${f.id}-${n}`;
+      fixIds.add(id);
+      fixes.set(key, { ...f, id });
+    }
+  }
+
+  return {
+    reviewMarkdown: results
+      .map((r, i) => `## Part ${i + 1} of ${results.length}\n\n${r.reviewMarkdown.trim()}`)
+      .join("\n\n---\n\n"),
+    findings: [...findings.values()],
+    fixes: [...fixes.values()],
+    ...droppedItems(results),
+  };
+}
+
+/** The dropped items of several results, as an optional `dropped` field. */
+export function droppedItems(results: ReviewResult[]): Pick<ReviewResult, "dropped"> {
+  const dropped = results.flatMap((r) => r.dropped ?? []);
+  return dropped.length > 0 ? { dropped } : {};
+}
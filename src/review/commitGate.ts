@@ -0,0 +1,199 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import * as vscode from "vscode";
+import { getSettings, type CommitGateMode } from "../config/settings";
+import { isEmptyDiff, type GitManager } from "../git/gitManager";
+import type { ReviewedFinding } from "../schema/reviewOutput";
+import type { ReviewController } from "./reviewController";
+import { findingsAtOrAbove, type Severity } from "./severity";
+
+// Lives in the git directory, so it is never committed. Plain `key value` lines keep the
+// hook a dependency-free shell script.
+const VERDICT_PATH = "vscode-code-review/verdict";
+const HOOK_PATH = "hooks/pre-commit";
+const HOOK_MARKER = "vscode-code-review: pre-commit gate";
+
+export interface GateVerdict {
+  /** `git write-tree` of the index that was reviewed. */
+  tree: string;
+  /** "incomplete": part of the staged changes was not reviewed (a batch or model failed). */
+  status: "pass" | "fail" | "incomplete" | "override";
+  threshold: Severity;
+  blocking: ReviewedFinding[];
+}
+
+function summarize(verdict: GateVerdict): string {
+  const n = verdict.blocking.length;
+  if (verdict.status === "incomplete") {
+    const found =
+      n > 0 ? `; ${n} finding${n === 1 ? "" : "s"} at or above ${verdict.threshold} so far` : "";
+    return `an incomplete review (part of the staged changes was not reviewed)${found}`;
+  }
+  if (n === 0) return `no findings at or above ${verdict.threshold}`;
+  const first = verdict.blocking[0];
+  const where = first.filePath
+    ? ` (${first.filePath}${first.startLine ? `:${first.startLine}` : ""})`
+    : "";
+  return `${n} finding${n === 1 ? "" : "s"} at or above ${verdict.threshold}, e.g. [${first.severity}] ${first.title}${where}`;
+}
+
+function hookScript(mode: Exclude<CommitGateMode, "off">): string {
+  return `#!/bin/sh
+# ${HOOK_MARKER} (installed by the Code Review VS Code extension).
+# Allows the commit when the extension reviewed exactly the staged changes and found nothing
+# at or above the configured severity. Override once with CODE_REVIEW_SKIP=1 or --no-verify.
+MODE="${mode}"
+[ -n "$CODE_REVIEW_SKIP" ] && exit 0
+verdict="$(git rev-parse --git-path ${VERDICT_PATH})"
+tree="$(git write-tree)" || exit 1
+
+gate() {
+  echo "code review: $1" >&2
+  [ "$MODE" = "warn" ] && exit 0
+  echo "code review: commit blocked. Override with CODE_REVIEW_SKIP=1 git commit ..." >&2
+  exit 1
+}
+
+if [ ! -f "$verdict" ] || ! grep -qx "tree $tree" "$verdict"; then
+  gate "the staged changes have not been reviewed. Run \\"Code Review: Review Staged Changes for Commit\\" in VS Code."
+fi
+if grep -qx -e "status fail" -e "status incomplete" "$verdict"; then
+  gate "$(sed -n 's/^summary //p' "$verdict")"
+fi
+exit 0
+`;
+}
+
+/**
+ * Pre-commit quality gate: reviews the staged changes and blocks (or warns about) commits
+ * with findings at or above `commitGateSeverity`. The outcome is written to a verdict file
+ * so the optional git hook can enforce it for commits made outside VS Code.
+ */
+export class CommitGate {
+  constructor(
+    private readonly git: GitManager,
+    private readonly reviews: ReviewController,
+    private readonly output: vscode.OutputChannel,
+  ) {}
+
+  /** Review the staged changes and record the verdict. Undefined when nothing is staged. */
+  async reviewStaged(rootUri: vscode.Uri): Promise<GateVerdict | undefined> {
+    const diff = await this.git.getChanges("staged", rootUri);
+    if (isEmptyDiff(diff)) {
+      await vscode.window.showInformationMessage("No staged changes. Nothing to review.");
+      return undefined;
+    }
+    // Taken before the review: restaging during the review invalidates the verdict.
+    const tree = await this.git.getStagedTree(rootUri);
+    const result = await this.reviews.review(diff, { title: "Code Review: Staged Changes" });
+
+    const threshold = getSettings().commitGateSeverity;
+    const blocking = findingsAtOrAbove(result, threshold);
+    const verdict: GateVerdict = {
+      tree,
+      // An unreviewed part of the diff cannot pass the gate.
+      status: result.incomplete ? "incomplete" : blocking.length > 0 ? "fail" : "pass",
+      threshold,
+      blocking,
+    };
+    await this.writeVerdict(rootUri, verdict);
+    this.output.appendLine(`[info] Commit gate: ${verdict.status} (${summarize(verdict)})`);
+    return verdict;
+  }
+
+  /**
+   * Review the staged changes, then commit with the Source Control message if the gate
+   * passes, or if the user explicitly overrides it. With the gate off, commit without a
+   * review.
+   */
+  async reviewAndCommit(rootUri: vscode.Uri): Promise<void> {
+    let message = this.git.getCommitMessage(rootUri).trim();
+    if (!message) {
+      message =
+        (
+          await vscode.window.showInputBox({
+            prompt: "Commit message",
+            ignoreFocusOut: true,
+            validateInput: (v) => (!v.trim() ? "Required" : null),
+          })
+        )?.trim() ?? "";
+      if (!message) return;
+    }
+
+    if (getSettings().commitGate === "off") {
+      this.output.appendLine("[info] Commit gate is off; committing without a review");
+    } else {
+      const verdict = await this.reviewStaged(rootUri);
+      if (!verdict) return;
+      if (!(await this.confirm(rootUri, verdict))) return;
+    }
+
+    await this.git.commit(rootUri, message);
+    await vscode.window.showInformationMessage("Committed staged changes.");
+  }
+
+  private async confirm(rootUri: vscode.Uri, verdict: GateVerdict): Promise<boolean> {
+    if (verdict.status === "pass" || verdict.status === "override") return true;
+    const summary = summarize(verdict);
+
+    if (getSettings().commitGate === "warn") {
+      void vscode.window.showWarningMessage(`Committing with ${summary}.`);
+      return true;
+    }
+
+    const choice = await vscode.window.showWarningMessage(
+      `Commit blocked: ${summary}.`,
+      {
+        modal: true,
+        detail:
+          verdict.status === "incomplete"
+            ? "Review again once the failed part can be reviewed, or override the gate once."
+            : "Fix the findings and review again, or override the gate once.",
+      },
+      "Commit Anyway",
+    );
+    if (choice !== "Commit Anyway") return false;
+
+    await this.writeVerdict(rootUri, { ...verdict, status: "override" });
+    this.output.appendLine(`[warn] Commit gate overridden by user: ${summary}`);
+    return true;
+  }
+
+  private async writeVerdict(rootUri: vscode.Uri, verdict: GateVerdict): Promise<void> {
+    const file = await this.git.getGitPath(rootUri, VERDICT_PATH);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    const lines = [
+      `tree ${verdict.tree}`,
+      `status ${verdict.status}`,
+      `threshold ${verdict.threshold}`,
+      `blocking ${verdict.blocking.length}`,
+      `summary ${summarize(verdict).replace(/\s+/g, " ")}`,
+      `reviewed ${new Date().toISOString()}`,
+    ];
+    await fs.writeFile(file, `${lines.join("\n")}\n`, "utf8");
+  }
+
+  /** Install the pre-commit hook, asking before replacing a hook that is not ours. */
+  async installHook(rootUri: vscode.Uri): Promise<void> {
+    const file = await this.git.getGitPath(rootUri, HOOK_PATH);
+    const existing = await fs.readFile(file, "utf8").catch(() => undefined);
+    if (existing !== undefined && !existing.includes(HOOK_MARKER)) {
+      const choice = await vscode.window.showWarningMessage(
+        `A pre-commit hook already exists at ${file}.`,
+        { modal: true, detail: "It will be kept as pre-commit.backup." },
+        "Replace",
+      );
+      if (choice !== "Replace") return;
+      await fs.rename(file, `${file}.backup`);
+    }
+
+    const mode = getSettings().commitGate === "warn" ? "warn" : "block";
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, hookScript(mode), { encoding: "utf8", mode: 0o755 });
+    await fs.chmod(file, 0o755);
+    this.output.appendLine(`[info] Installed pre-commit hook (${mode}) at ${file}`);
+    await vscode.window.showInformationMessage(
+      `Installed the pre-commit hook (${mode} mode). Run "Review Staged Changes for Commit" before committing from a terminal; delete ${file} to uninstall.`,
+    );
+  }
+}
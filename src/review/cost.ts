@@ -0,0 +1,60 @@
+import { describeModel, type ModelPricing } from "../ai/modelMetadata";
+import type { AIProvider } from "../config/settingsCore";
+import type { PathRef } from "../context/paths";
+import type { GitDiffResult } from "../git/gitDiff";
+import { CHARS_PER_TOKEN } from "./batching";
+
+export interface TokenUsage {
+  inputTokens?: number;
+  outputTokens?: number;
+  totalTokens?: number;
+}
+
+export interface CostEstimate {
+  inputTokens: number;
+  outputTokens: number;
+  usd: number;
+}
+
+// Instructions, file list and tool definitions sent with every batch besides the prompt.
+const REQUEST_OVERHEAD_TOKENS = 2000;
+// Typical size of the review markdown plus findings and fixes for one batch.
+const OUTPUT_TOKENS_PER_BATCH = 3000;
+
+/** List price of a model; undefined when unknown (local servers, VS Code language models). */
+export function modelPricing(provider: AIProvider, modelId: string): ModelPricing | undefined {
+  return describeModel(provider, modelId).pricing;
+}
+
+export function usageCost(pricing: ModelPricing, usage: TokenUsage): number {
+  const input = usage.inputTokens ?? 0;
+  const output = usage.outputTokens ?? 0;
+  return (input * pricing.input + output * pricing.output) / 1_000_000;
+}
+
+/**
+ * Cost of reviewing `diff` before it runs, from its size and the batches it will be split
+ * into. Files the model reads with its tools come on top, so this is closer to a lower
+ * bound than to the final cost.
+ */
+export function estimateReviewCost(
+  pricing: ModelPricing,
+  diff: GitDiffResult<PathRef>,
+  systemPrompt: string,
+  batchMaxTokens: number,
+): CostEstimate {
+  const diffChars = [diff.unstagedDiff, diff.stagedDiff, diff.untrackedDiff, diff.committedDiff]
+    .map((d) => d.length)
+    .reduce((a, b) => a + b, 0);
+  const diffTokens = Math.ceil(diffChars / CHARS_PER_TOKEN);
+  const batches = Math.max(1, Math.ceil(diffTokens / batchMaxTokens));
+  const perBatch = Math.ceil(systemPrompt.length / CHARS_PER_TOKEN) + REQUEST_OVERHEAD_TOKENS;
+  const inputTokens = diffTokens + batches * perBatch;
+  const outputTokens = batches * OUTPUT_TOKENS_PER_BATCH;
+  return { inputTokens, outputTokens, usd: usageCost(pricing, { inputTokens, outputTokens }) };
+}
+
+/** Cents for everyday amounts, more digits for the fractions a small review costs. */
+export function formatUsd(usd: number): string {
+  return usd > 0 && usd < 0.01 ? `$${usd.toFixed(4)}` : `$${usd.toFixed(2)}`;
+}
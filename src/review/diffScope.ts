@@ -0,0 +1,128 @@
+import * as path from "path";
+import { isInsideRoot, relativeToRoot, type PathRef } from "../context/paths";
+import { changedLineMap, parseUnifiedDiff, type DiffFile } from "../git/diffParser";
+import type { OutOfDiffFindings } from "../config/settingsCore";
+import type { GitDiffResult } from "../git/gitDiff";
+import type {
+  DroppedItem,
+  FileEdit,
+  ReviewedFinding,
+  ReviewedFix,
+  ReviewResult,
+} from "../schema/reviewOutput";
+
+/** Parse every diff section of a review into one file list. */
+export function parseReviewDiff(diff: GitDiffResult<PathRef>): DiffFile[] {
+  return [diff.stagedDiff, diff.unstagedDiff, diff.untrackedDiff, diff.committedDiff].flatMap((d) =>
+    parseUnifiedDiff(d),
+  );
+}
+
+/**
+ * Answers "does this location overlap the diff?" for model output. Deleted files count as
+ * changed everywhere; files that are not in the diff count as unchanged.
+ */
+export class ChangedLines {
+  private readonly lines: Map<string, Set<number>>;
+  private readonly deleted: Set<string>;
+
+  constructor(
+    files: DiffFile[],
+    private readonly root: PathRef,
+  ) {
+    this.lines = changedLineMap(files);
+    this.deleted = new Set(files.filter((f) => !f.newPath).map((f) => f.path));
+  }
+
+  private normalize(filePath: string): string {
+    const p = path.isAbsolute(filePath) ? relativeToRoot(this.root, filePath) : filePath;
+    return p.replaceAll("\\", "/").replace(/^\.\//, "");
+  }
+
+  hasFile(filePath: string): boolean {
+    const p = this.normalize(filePath);
+    return this.lines.has(p) || this.deleted.has(p);
+  }
+
+  overlaps(filePath: string, startLine: number, endLine: number): boolean {
+    const p = this.normalize(filePath);
+    if (this.deleted.has(p)) return true;
+    const changed = this.lines.get(p);
+    if (!changed) return false;
+    const [lo, hi] = startLine <= endLine ? [startLine, endLine] : [endLine, startLine];
+    for (let line = lo; line <= hi; line++) {
+      if (changed.has(line)) return true;
+    }
+    return false;
+  }
+}
+
+/**
+ * Drop fixes with an edit whose path leaves the repository (absolute or `../` paths), so
+ * they can never be applied. They are listed as dropped, whatever `outOfDiffFindings` is.
+ */
+export function dropFixesOutsideRoot(output: ReviewResult, root: PathRef): ReviewResult {
+  const dropped: DroppedItem[] = [];
+  const fixes = output.fixes.filter((f) => {
+    const outside = [f.filePath, ...f.additionalEdits.map((e) => e.filePath)].find(
+      (p) => !isInsideRoot(root, p),
+    );
+    if (outside === undefined) return true;
+    dropped.push({
+      kind: "fix",
+      summary: f.title,
+      reason: `${outside} is outside the repository`,
+    });
+    return false;
+  });
+  if (dropped.length === 0) return output;
+  return { ...output, fixes, dropped: [...(output.dropped ?? []), ...dropped] };
+}
+
+/**
+ * Whether one of a fix's additional edits stays within the diff. They are the companion
+ * changes of the main edit (call sites of a rename, an import), usually on unchanged
+ * lines, so only their file has to be part of the diff. New files cannot be in the diff
+ * yet and count as in scope.
+ */
+function editInsideDiff(edit: FileEdit, changed: ChangedLines): boolean {
+  return edit.kind === "create" || changed.hasFile(edit.filePath);
+}
+
+/**
+ * Enforce "only review the diff" on the model's output: findings and fixes whose location
+ * does not overlap a changed line are flagged or dropped. A fix is judged by its main
+ * edit; its additional edits only need to touch files of the diff. Findings without a
+ * file are general remarks and always kept.
+ */
+export function scopeToDiff(
+  output: ReviewResult,
+  changed: ChangedLines,
+  policy: OutOfDiffFindings,
+): ReviewResult {
+  if (policy === "keep") return output;
+
+  const findings = output.findings.map((f): ReviewedFinding => {
+    if (!f.filePath) return f;
+    const inside =
+      f.startLine === null
+        ? changed.hasFile(f.filePath)
+        : changed.overlaps(f.filePath, f.startLine, f.endLine ?? f.startLine);
+    return inside ? f : { ...f, outsideDiff: true };
+  });
+  const fixes = output.fixes.map((f): ReviewedFix => {
+    const inside =
+      changed.overlaps(f.filePath, f.startLine, f.endLine) &&
+      f.additionalEdits.every((e) => editInsideDiff(e, changed));
+    return inside ? f : { ...f, outsideDiff: true };
+  });
+
+  if (policy === "drop") {
+    return {
+      ...output,
+      findings: findings.filter((f) => !f.outsideDiff),
+      fixes: fixes.filter((f) => !f.outsideDiff),
+    };
+  }
+  return { ...output, findings, fixes };
+}
@@ -0,0 +1,264 @@
+import type { ExtensionSettings, ModelRef } from "../config/settingsCore";
+import { withSettings } from "../host/reviewHost";
+import type { FileEdit, ReviewedFinding, ReviewedFix, ReviewResult } from "../schema/reviewOutput";
+import { droppedItems } from "./batching";
+import { runReview, type PartialReview, type RunReviewArgs } from "./reviewRunner";
+import { moreSevere } from "./severity";
+
+export interface RunEnsembleArgs extends RunReviewArgs {
+  members: ModelRef[];
+}
+
+interface MemberReport {
+  label: string;
+  result: ReviewResult;
+}
+
+// Findings whose line ranges are this close still count as the same location.
+const LINE_SLACK = 2;
+// Minimum title similarity for findings at the same lines, and for findings without lines.
+const SIMILAR_AT_SAME_LINES = 0.25;
+const SIMILAR_WITHOUT_LINES = 0.6;
+
+/** The configured ensemble without duplicates; empty unless it has at least two models. */
+export function ensembleMembers(settings: ExtensionSettings): ModelRef[] {
+  const seen = new Set<string>();
+  const members = settings.ensembleModels.filter((m) => {
+    const key = `${m.provider}|${m.model}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  return members.length >= 2 ? members : [];
+}
+
+/** The model id, qualified with the provider only when two members share the id. */
+export function memberLabel(member: ModelRef, members: ModelRef[]): string {
+  const shared = members.filter((m) => m.model === member.model).length > 1;
+  return shared ? `${member.provider}/${member.model}` : member.model;
+}
+
+/**
+ * Review the diff with every member in parallel and merge the results with
+ * `mergeEnsembleResults`. Members that fail are reported in the markdown; the review
+ * only fails when all of them do.
+ */
+export async function runEnsembleReview(args: RunEnsembleArgs): Promise<ReviewResult> {
+  const { members, ...common } = args;
+  const usage = new Map<number, { inputTokens?: number; outputTokens?: number }>();
+  const reportUsage = () => {
+    const total = { inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+    for (const u of usage.values()) {
+      total.inputTokens += u.inputTokens ?? 0;
+      total.outputTokens += u.outputTokens ?? 0;
+    }
+    total.totalTokens = total.inputTokens + total.outputTokens;
+    args.onUsage?.(total);
+  };
+
+  const labels = members.map((m) => memberLabel(m, members));
+  // Streamed side by side; findings are only merged once every member is done.
+  const partials: PartialReview[] = [];
+  const reportPartial = () =>
+    args.onPartial?.({
+      reviewMarkdown: partials
+        .map((p, i) => (p ? `## ${labels[i]}\n\n${p.reviewMarkdown.trim()}` : ""))
+        .filter(Boolean)
+        .join("\n\n---\n\n"),
+      findings: partials.filter(Boolean).flatMap((p) => p.findings),
+    });
+
+  args.output?.appendLine(`[info] Ensemble review with ${labels.join(", ")}`);
+  const settled = await Promise.allSettled(
+    members.map((member, i) =>
+      runReview({
+        ...common,
+        // A member falling back to another model would just duplicate that model's review.
+        host: withSettings(common.host, {
+          provider: member.provider,
+          model: member.model,
+          fallbackModels: [],
+        }),
+        // Batch progress of several models would interleave in a single list.
+        onBatch: undefined,
+        onUsage: (u) => {
+          usage.set(i, (u ?? {}) as { inputTokens?: number; outputTokens?: number });
+          reportUsage();
+        },
+        onPartial: (partial) => {
+          partials[i] = partial;
+          reportPartial();
+        },
+      }),
+    ),
+  );
+
+  const reports: MemberReport[] = [];
+  const failures: string[] = [];
+  settled.forEach((s, i) => {
+    if (s.status === "fulfilled") {
+      reports.push({ label: labels[i], result: s.value });
+      return;
+    }
+    const msg = s.reason instanceof Error ? s.reason.message : String(s.reason);
+    args.output?.appendLine(`[error] Ensemble member ${labels[i]}: ${msg}`);
+    failures.push(`${labels[i]} failed: ${msg}`);
+  });
+  const aborted = settled.find(
+    (s) => s.status === "rejected" && s.reason instanceof Error && s.reason.name === "AbortError",
+  );
+  if (aborted) throw (aborted as PromiseRejectedResult).reason;
+  if (reports.length === 0) throw (settled[0] as PromiseRejectedResult).reason;
+
+  const merged = mergeEnsembleResults(reports);
+  if (failures.length === 0) return merged;
+  return {
+    ...merged,
+    incomplete: true,
+    reviewMarkdown: `> **Incomplete ensemble.** ${failures.join(" ")}\n\n${merged.reviewMarkdown}`,
+  };
+}
+
+function titleWords(title: string): Set<string> {
+  return new Set(
+    title
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter((w) => w.length > 2),
+  );
+}
+
+/** Dice coefficient of the titles' words: 1 for the same words, 0 for none in common. */
+function titleSimilarity(a: string, b: string): number {
+  const wa = titleWords(a);
+  const wb = titleWords(b);
+  if (wa.size + wb.size === 0) return a.trim().toLowerCase() === b.trim().toLowerCase() ? 1 : 0;
+  let common = 0;
+  for (const w of wa) if (wb.has(w)) common++;
+  return (2 * common) / (wa.size + wb.size);
+}
+
+function rangesOverlap(
+  a: { startLine: number; endLine: number | null },
+  b: { startLine: number; endLine: number | null },
+  slack = 0,
+): boolean {
+  const aEnd = Math.max(a.startLine, a.endLine ?? a.startLine);
+  const bEnd = Math.max(b.startLine, b.endLine ?? b.startLine);
+  return a.startLine <= bEnd + slack && b.startLine <= aEnd + slack;
+}
+
+function sameIssue(a: ReviewedFinding, b: ReviewedFinding): boolean {
+  if (a.filePath !== b.filePath) return false;
+  const similarity = titleSimilarity(a.title, b.title);
+  if (a.startLine === null || b.startLine === null) return similarity >= SIMILAR_WITHOUT_LINES;
+  return (
+    rangesOverlap(
+      { startLine: a.startLine, endLine: a.endLine },
+      { startLine: b.startLine, endLine: b.endLine },
+      LINE_SLACK,
+    ) && similarity >= SIMILAR_AT_SAME_LINES
+  );
+}
+
+const normalizeReplacement = (text: string) =>
+  text
+    .split("\n")
+    .map((l) => l.trimEnd())
+    .join("\n")
+    .trim();
+
+function sameEdits(a: FileEdit[], b: FileEdit[]): boolean {
+  return (
+    a.length === b.length &&
+    a.every(
+      (e, i) =>
+        e.kind === b[i].kind &&
+        e.filePath === b[i].filePath &&
+        e.startLine === b[i].startLine &&
+        e.endLine === b[i].endLine &&
+        normalizeReplacement(e.replacement ?? "") === normalizeReplacement(b[i].replacement ?? ""),
+    )
+  );
+}
+
+/**
+ * Merge the members' results. A finding reported by several models (same file,
+ * overlapping lines, similar title) is kept once with the highest severity, and
+ * `reportedBy` lists the models that reported it; findings most models agree on come
+ * first. Identical fixes are merged the same way. A fix that edits the same lines
+ * differently than another model's fix is kept as an alternative to it (`alternativeOf`),
+ * listed right after it.
+ */
+export function mergeEnsembleResults(reports: MemberReport[]): ReviewResult {
+  const findings: ReviewedFinding[] = [];
+  for (const { label, result } of reports) {
+    for (const f of result.findings) {
+      const match = findings.find((m) => !m.reportedBy?.includes(label) && sameIssue(m, f));
+      if (!match) {
+        findings.push({ ...f, reportedBy: [label] });
+        continue;
+      }
+      match.severity = moreSevere(match.severity, f.severity);
+      match.rationale ??= f.rationale;
+      match.category ??= f.category;
+      match.ruleId ??= f.ruleId;
+      match.cwe ??= f.cwe;
+      match.suggestedTest ??= f.suggestedTest;
+      if (f.confidence !== null) match.confidence = Math.max(match.confidence ?? 0, f.confidence);
+      match.outsideDiff = match.outsideDiff && f.outsideDiff ? true : undefined;
+      match.reportedBy!.push(label);
+    }
+  }
+  // Stable: equally supported findings keep the order the models reported them in.
+  findings.sort((a, b) => b.reportedBy!.length - a.reportedBy!.length);
+
+  const groups: ReviewedFix[][] = [];
+  const fixIds = new Set<string>();
+  for (const { label, result } of reports) {
+    for (const f of result.fixes) {
+      const all = groups.flat();
+      const same = all.find(
+        (m) =>
+          m.filePath === f.filePath &&
+          m.startLine === f.startLine &&
+          m.endLine === f.endLine &&
+          normalizeReplacement(m.replacement) === normalizeReplacement(f.replacement) &&
+          sameEdits(m.additionalEdits, f.additionalEdits),
+      );
+      if (same) {
+        if (!same.reportedBy!.includes(label)) same.reportedBy!.push(label);
+        continue;
+      }
+
+      let id = f.id;
+      for (let n = 2; fixIds.has(id); n++) id = `${f.id}-${n}`;
+      fixIds.add(id);
+      const group = groups.find(
+        ([primary]) =>
+          primary.filePath === f.filePath &&
+          !primary.reportedBy!.includes(label) &&
+          rangesOverlap(primary, f),
+      );
+      if (group) {
+        group.push({ ...f, id, reportedBy: [label], alternativeOf: group[0].id });
+      } else {
+        groups.push([{ ...f, id, reportedBy: [label] }]);
+      }
+    }
+  }
+
+  const agreed = findings.filter((f) => f.reportedBy!.length > 1).length;
+  const header = `**Ensemble review** by ${reports.length} models (${reports.map((r) => r.label).join(", ")}): ${agreed} of ${findings.length} finding(s) reported by more than one model.`;
+  return {
+    reviewMarkdown: [
+      header,
+      ...reports.map((r) => `## ${r.label}\n\n${r.result.reviewMarkdown.trim()}`),
+    ].join("\n\n---\n\n"),
+    findings,
+    fixes: groups.flat(),
+    ...droppedItems(reports.map((r) => r.result)),
+    // A member whose batches partly failed left files unreviewed by that model.
+    ...(reports.some((r) => r.result.incomplete) ? { incomplete: true } : {}),
+  };
+}
@@ -0,0 +1,186 @@
+import { z } from "zod";
+import {
+  FINDING_CATEGORIES,
+  FindingSchema,
+  FixSchema,
+  ReviewOutputSchema,
+  type DroppedItem,
+  type Finding,
+  type FindingCategory,
+  type Fix,
+  type ReviewOutput,
+} from "../schema/reviewOutput";
+
+export interface SalvagedOutput {
+  output: ReviewOutput;
+  /** Items that were left out, with the validation errors that ruled them out. */
+  dropped: DroppedItem[];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+function getArray(obj: Record<string, unknown>, key: string): unknown[] {
+  const v = obj[key];
+  return Array.isArray(v) ? v : [];
+}
+
+function getString(obj: Record<string, unknown>, key: string): string | undefined {
+  const v = obj[key];
+  return typeof v === "string" ? v : undefined;
+}
+
+// Models sometimes quote line numbers; "12" is as good as 12.
+function getNumber(obj: Record<string, unknown>, key: string): number | undefined {
+  const v = obj[key];
+  if (typeof v === "number") return v;
+  if (typeof v === "string" && /^\s*\d+\s*$/.test(v)) return Number(v);
+  return undefined;
+}
+
+// The fields below only annotate a finding: odd values are cleared rather than dropping it.
+
+function category(value: string | undefined): FindingCategory | null {
+  const v = value?.trim().toLowerCase();
+  return FINDING_CATEGORIES.find((c) => c === v) ?? null;
+}
+
+// Percentages are the usual slip.
+function confidence(value: number | undefined): number | null {
+  if (value === undefined || value < 0) return null;
+  if (value <= 1) return value;
+  return value <= 100 ? value / 100 : null;
+}
+
+// "CWE-89", "cwe 89" and 89 all become "CWE-89".
+function cwe(value: unknown): string | null {
+  const id = typeof value === "number" ? String(value) : typeof value === "string" ? value : "";
+  const match = id.match(/^\s*(?:cwe[-\s]?)?(\d+)\s*$/i);
+  return match ? `CWE-${match[1]}` : null;
+}
+
+function describeIssues(error: z.ZodError): string {
+  return error.issues
+    .map((i) => (i.path.length > 0 ? `${i.path.join(".")}: ${i.message}` : i.message))
+    .join("; ");
+}
+
+function summary(item: unknown, kind: DroppedItem["kind"], index: number): string {
+  const title = isRecord(item) ? getString(item, "title")?.trim() : undefined;
+  return title || `${kind} #${index + 1}`;
+}
+
+/**
+ * The JSON object in a model's answer. Tolerates a markdown code fence or prose around
+ * the object; undefined when there is no parseable object.
+ */
+export function extractJson(text: string): unknown {
+  const candidates = [text, text.match(/```(?:json)?\s*\n([\s\S]*?)\n\s*```/)?.[1]];
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  if (start >= 0 && end > start) candidates.push(text.slice(start, end + 1));
+  for (const candidate of candidates) {
+    if (!candidate?.trim()) continue;
+    try {
+      return JSON.parse(candidate);
+    } catch {
+      // Try the next candidate.
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Why `text` is not a valid review output, in words the model can act on: the JSON
+ * syntax error or the schema's validation errors. Undefined when it is valid.
+ */
+export function reviewOutputErrors(text: string): string | undefined {
+  try {
+    JSON.parse(text);
+  } catch (err) {
+    return `The text is not valid JSON: ${err instanceof Error ? err.message : String(err)}`;
+  }
+  const parsed = ReviewOutputSchema.safeParse(JSON.parse(text));
+  return parsed.success ? undefined : z.prettifyError(parsed.error);
+}
+
+/**
+ * Keep every finding and fix of `input` that can be made valid: missing nullable fields
+ * become null, severities are lower-cased and numeric strings become numbers. Unusable
+ * annotations (category, confidence, CWE) are cleared. Items that still fail validation
+ * are dropped and listed with the reason.
+ */
+export function salvageReviewOutput(input: unknown): SalvagedOutput {
+  const root = isRecord(input) ? input : {};
+  const dropped: DroppedItem[] = [];
+
+  const findings = getArray(root, "findings").flatMap((f, i): Finding[] => {
+    if (!isRecord(f)) {
+      dropped.push({ kind: "finding", summary: summary(f, "finding", i), reason: "not an object" });
+      return [];
+    }
+    const parsed = FindingSchema.safeParse({
+      severity: getString(f, "severity")?.trim().toLowerCase(),
+      title: getString(f, "title"),
+      filePath: getString(f, "filePath") || null,
+      startLine: getNumber(f, "startLine") ?? null,
+      endLine: getNumber(f, "endLine") ?? null,
+      rationale: getString(f, "rationale") ?? null,
+      category: category(getString(f, "category")),
+      confidence: confidence(getNumber(f, "confidence")),
+      ruleId: getString(f, "ruleId")?.trim() || null,
+      cwe: cwe(f.cwe),
+      suggestedTest: getString(f, "suggestedTest")?.trim() || null,
+    });
+    if (parsed.success) return [parsed.data];
+    dropped.push({
+      kind: "finding",
+      summary: summary(f, "finding", i),
+      reason: describeIssues(parsed.error),
+    });
+    return [];
+  });
+
+  const fixes = getArray(root, "fixes").flatMap((f, i): Fix[] => {
+    if (!isRecord(f)) {
+      dropped.push({ kind: "fix", summary: summary(f, "fix", i), reason: "not an object" });
+      return [];
+    }
+    const parsed = FixSchema.safeParse({
+      // The id only links the panel's buttons to the fix; any unique value will do.
+      id: getString(f, "id") || `fix-${i + 1}`,
+      title: getString(f, "title"),
+      filePath: getString(f, "filePath"),
+      startLine: getNumber(f, "startLine"),
+      endLine: getNumber(f, "endLine"),
+      replacement: getString(f, "replacement"),
+      expectedOriginalSnippet: getString(f, "expectedOriginalSnippet") ?? null,
+      // One invalid edit drops the whole fix: applying only part of it would break the code.
+      additionalEdits: getArray(f, "additionalEdits").map((e) =>
+        isRecord(e)
+          ? {
+              kind: getString(e, "kind")?.trim().toLowerCase(),
+              filePath: getString(e, "filePath"),
+              startLine: getNumber(e, "startLine") ?? null,
+              endLine: getNumber(e, "endLine") ?? null,
+              replacement: getString(e, "replacement") ?? null,
+              expectedOriginalSnippet: getString(e, "expectedOriginalSnippet") ?? null,
+            }
+          : e,
+      ),
+    });
+    if (parsed.success) return [parsed.data];
+    dropped.push({
+      kind: "fix",
+      summary: summary(f, "fix", i),
+      reason: describeIssues(parsed.error),
+    });
+    return [];
+  });
+
+  return {
+    output: { reviewMarkdown: getString(root, "reviewMarkdown") ?? "", findings, fixes },
+    dropped,
+  };
+}
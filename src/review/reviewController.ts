@@ -0,0 +1,380 @@
+import { createHash } from "crypto";
+import * as path from "path";
+import * as vscode from "vscode";
+import { getSettings, type ModelRef } from "../config/settings";
+import type { ReviewHost } from "../host/reviewHost";
+import { createVscodeHost } from "../host/vscodeHost";
+import type { GitDiffResult, GitManager, RepositoryInfo } from "../git/gitManager";
+import type { PromptManager } from "../prompts/promptManager";
+import type { ApiKeyStore } from "../secrets/apiKeyStore";
+import type { ReviewResult } from "../schema/reviewOutput";
+import { ReviewPanel } from "../views/ReviewPanel";
+import type { SidebarProvider } from "../views/SidebarProvider";
+import { estimateReviewCost, formatUsd, modelPricing, usageCost } from "./cost";
+import { ensembleMembers, runEnsembleReview } from "./ensemble";
+import { mergeCarriedOver, ReviewHistory } from "./reviewHistory";
+import { runReview, type RunReviewArgs, type UsageTotals } from "./reviewRunner";
+import { BudgetExceededError, SpendTracker } from "./spendTracker";
+import { verifyFindings } from "./verification";
+
+export interface ReviewOptions {
+  /** Title for the review panel (defaults to "Code Review"). */
+  title?: string;
+  /**
+   * Background review: progress goes to the status bar and the result only refreshes a
+   * panel that is already open instead of popping one up.
+   */
+  quiet?: boolean;
+}
+
+/** Thrown by `ReviewController.review` while another review is still running. */
+export class ReviewInProgressError extends Error {
+  constructor() {
+    super("A code review is already running. Wait for it to finish or cancel it.");
+    this.name = "ReviewInProgressError";
+  }
+}
+
+type RepositoryPickItem = vscode.QuickPickItem & { repositories: RepositoryInfo[] };
+
+function containsUri(repo: RepositoryInfo, uri: vscode.Uri | undefined): boolean {
+  if (!uri) return false;
+  const root = repo.rootUri.fsPath;
+  return uri.fsPath === root || uri.fsPath.startsWith(root + path.sep);
+}
+
+/**
+ * Shared flow behind the review commands: precondition checks, progress UI,
+ * running the model and presenting the result.
+ */
+export class ReviewController {
+  private readonly history: ReviewHistory;
+  private readonly host: ReviewHost;
+  private readonly spend: SpendTracker;
+  private running = false;
+
+  constructor(
+    private readonly context: vscode.ExtensionContext,
+    private readonly output: vscode.OutputChannel,
+    private readonly git: GitManager,
+    private readonly promptManager: PromptManager,
+    private readonly sidebar: SidebarProvider,
+    keys: ApiKeyStore,
+  ) {
+    this.history = new ReviewHistory(context.workspaceState);
+    this.host = createVscodeHost(keys, git);
+    this.spend = new SpendTracker(context.globalState);
+    this.sidebar.setSpend(this.spend.describe(getSettings()));
+  }
+
+  /** Forget previous reviews, so the next run reviews every file again. */
+  async clearHistory(): Promise<void> {
+    await this.history.clear();
+  }
+
+  /**
+   * Run a command body, reporting failures (and user cancellation) instead of throwing.
+   */
+  async runCommand(name: string, task: () => Promise<void>): Promise<void> {
+    try {
+      await task();
+    } catch (err) {
+      if (err instanceof ReviewInProgressError) {
+        await vscode.window.showInformationMessage(err.message);
+        return;
+      }
+      if (err instanceof BudgetExceededError) {
+        this.output.appendLine(`[warn] ${name}: ${err.message}`);
+        await vscode.window.showWarningMessage(err.message);
+        return;
+      }
+      // Handle user cancellation gracefully
+      if (err instanceof Error && (err.name === "AbortError" || err.message.includes("aborted"))) {
+        this.output.appendLine(`[info] Review cancelled by user`);
+        await vscode.window.showInformationMessage("Code review cancelled.");
+        return;
+      }
+      const msg = err instanceof Error ? err.message : String(err);
+      this.output.appendLine(`[error] ${name}: ${msg}`);
+      await vscode.window.showErrorMessage(`Code review failed: ${msg}`);
+    }
+  }
+
+  /** Returns false (after telling the user why) when there is no repository to review. */
+  async ensureRepository(): Promise<boolean> {
+    if (!this.git.isGitAvailable()) {
+      await vscode.window.showErrorMessage(
+        "Git extension is not available. Please ensure Git is installed and the built-in Git extension is enabled.",
+      );
+      return false;
+    }
+    if (!this.git.hasRepository()) {
+      await vscode.window.showErrorMessage("No Git repository found in the current workspace.");
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Ask which repository to review; skipped when the workspace has only one. With `allowAll`,
+   * an extra entry selects every repository that has uncommitted changes.
+   * Returns undefined when the user dismisses the picker.
+   */
+  async pickRepositories(opts: { allowAll?: boolean } = {}): Promise<RepositoryInfo[] | undefined> {
+    const repos = this.git.listRepositories();
+    if (repos.length <= 1) return repos;
+
+    // Offer the repository of the active editor first.
+    const active = vscode.window.activeTextEditor?.document.uri;
+    const sorted = [...repos].sort(
+      (a, b) => Number(containsUri(b, active)) - Number(containsUri(a, active)),
+    );
+
+    const items: RepositoryPickItem[] = sorted.map((r) => ({
+      label: `$(repo) ${r.name}`,
+      description: `${r.stagedCount} staged · ${r.unstagedCount} unstaged`,
+      detail: r.rootUri.fsPath,
+      repositories: [r],
+    }));
+    if (opts.allowAll) {
+      items.push({
+        label: "$(files) All repositories with changes",
+        repositories: sorted.filter((r) => r.stagedCount + r.unstagedCount > 0),
+      });
+    }
+
+    const picked = await vscode.window.showQuickPick(items, {
+      placeHolder: "Select a repository to review",
+      ignoreFocusOut: true,
+    });
+    return picked?.repositories;
+  }
+
+  /** True from the start of `review` until it returns or throws. */
+  get isReviewing(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Review `diff` and present the result. Only one review runs at a time: the guard is set
+   * before any await, so manual and background reviews cannot overwrite each other's
+   * history and panel output.
+   */
+  async review(diff: GitDiffResult, opts: ReviewOptions = {}): Promise<ReviewResult> {
+    if (this.running) throw new ReviewInProgressError();
+    this.running = true;
+    try {
+      return await this.reviewWithProgress(diff, opts);
+    } finally {
+      this.running = false;
+      this.sidebar.setReviewing(false);
+    }
+  }
+
+  private async reviewWithProgress(
+    diff: GitDiffResult,
+    opts: ReviewOptions,
+  ): Promise<ReviewResult> {
+    return vscode.window.withProgress(
+      {
+        location: opts.quiet
+          ? vscode.ProgressLocation.Window
+          : vscode.ProgressLocation.Notification,
+        title: "Code Review",
+        cancellable: false,
+      },
+      async (progress) => {
+        progress.report({ message: "Reviewing changes..." });
+
+        await this.promptManager.ensureDefaults();
+        const activePromptId = this.promptManager.getActivePromptId();
+        if (!activePromptId) {
+          throw new Error("No prompt selected.");
+        }
+        const { content: systemPrompt } = await this.promptManager.getPromptContent(activePromptId);
+
+        // Re-runs with the same models and prompt only review files whose diff changed.
+        const settings = getSettings();
+        const members = ensembleMembers(settings);
+        const models: ModelRef[] =
+          members.length > 0 ? members : [{ provider: settings.provider, model: settings.model }];
+        const fingerprint = [
+          ...models.flatMap((m) => [m.provider, m.model]),
+          createHash("sha1").update(systemPrompt).digest("hex"),
+        ].join("|");
+        const plan = settings.incrementalReview ? this.history.plan(diff, fingerprint) : undefined;
+        if (plan) {
+          this.output.appendLine(
+            `[info] Incremental review: ${plan.unchangedFiles.length} unchanged file(s) carried over`,
+          );
+        }
+
+        // Models without a known price (local, VS Code) are neither estimated nor charged.
+        const reviewDiff = plan ? plan.diff : diff;
+        const priced = models.flatMap((m) => {
+          const pricing = modelPricing(m.provider, m.model);
+          return pricing ? [{ ...m, pricing }] : [];
+        });
+        const estimateUsd =
+          reviewDiff && priced.length > 0
+            ? priced
+                .map(
+                  (m) =>
+                    estimateReviewCost(m.pricing, reviewDiff, systemPrompt, settings.batchMaxTokens)
+                      .usd,
+                )
+                .reduce((x, y) => x + y, 0)
+            : undefined;
+        if (estimateUsd !== undefined) await this.checkBudget(estimateUsd, opts);
+
+        this.sidebar.setReviewing(true);
+        this.sidebar.setEstimate(estimateUsd);
+        if (plan) {
+          this.sidebar.pushActivity(
+            `carried over: ${plan.unchangedFiles.length} unchanged file(s)`,
+          );
+        }
+        const abortController = this.sidebar.createAbortController();
+        // Charged even when the review fails part-way: the tokens were still billed.
+        const costs = new Map<string, number>();
+        const totalCost = () => [...costs.values()].reduce((x, y) => x + y, 0);
+        const pricedUsage = (prefix: string) => (model: ModelRef, usage: UsageTotals) => {
+          const pricing = modelPricing(model.provider, model.model);
+          if (pricing) {
+            costs.set(`${prefix}${model.provider}|${model.model}`, usageCost(pricing, usage));
+          }
+        };
+        const reviewArgs: RunReviewArgs | undefined = reviewDiff && {
+          host: this.host,
+          rulesDir: vscode.Uri.joinPath(this.context.extensionUri, "rules").fsPath,
+          diff: reviewDiff,
+          systemPrompt,
+          output: this.output,
+          abortSignal: abortController.signal,
+          onActivity: (evt) => this.sidebar.pushActivity(`${evt.type}: ${evt.detail}`),
+          onBatch: (evt) => {
+            this.sidebar.setBatchProgress(evt);
+            if (evt.status === "running") {
+              progress.report({
+                message: `Reviewing batch ${evt.index + 1} of ${evt.total}...`,
+              });
+            }
+          },
+          onModelUsage: pricedUsage(""),
+          onUsage: (usage) => {
+            if (usage && typeof usage === "object") {
+              const u = usage as {
+                inputTokens?: number;
+                outputTokens?: number;
+                totalTokens?: number;
+              };
+              this.sidebar.setUsage(u, costs.size > 0 ? totalCost() : undefined);
+            } else {
+              this.sidebar.setUsage(undefined);
+            }
+          },
+        };
+        if (members.length > 0) {
+          progress.report({ message: `Reviewing with ${members.length} models...` });
+        }
+        // Background reviews do not pop up a panel, so there is nothing to stream into.
+        if (reviewArgs && !opts.quiet) {
+          ReviewPanel.showPending(this.context.extensionUri, {
+            rootUri: diff.repositoryRoot,
+            title: this.panelTitle(diff, opts.title),
+          });
+          reviewArgs.onPartial = (partial) =>
+            ReviewPanel.streamIfOpen(partial, diff.repositoryRoot);
+        }
+
+        let fresh: ReviewResult | undefined;
+        try {
+          fresh = !reviewArgs
+            ? undefined
+            : members.length > 0
+              ? await runEnsembleReview({ ...reviewArgs, members })
+              : await runReview(reviewArgs);
+          if (fresh && reviewArgs && settings.verifyFindings && fresh.findings.length > 0) {
+            progress.report({ message: "Verifying findings..." });
+            fresh = await verifyFindings({
+              host: this.host,
+              diff: reviewArgs.diff,
+              result: fresh,
+              output: this.output,
+              abortSignal: abortController.signal,
+              onActivity: (detail) => this.sidebar.pushActivity(`verify: ${detail}`),
+              onModelUsage: pricedUsage("verify|"),
+            });
+          }
+        } catch (err) {
+          if (!opts.quiet) {
+            const msg = err instanceof Error ? err.message : String(err);
+            ReviewPanel.streamFailed(diff.repositoryRoot, `Review did not finish: ${msg}`);
+          }
+          throw err;
+        } finally {
+          const costUsd = totalCost();
+          if (costUsd > 0) {
+            await this.spend.record(costUsd);
+            const estimated =
+              estimateUsd !== undefined ? ` (estimated ${formatUsd(estimateUsd)})` : "";
+            this.output.appendLine(`[info] Review cost: ${formatUsd(costUsd)}${estimated}`);
+          }
+          this.sidebar.setSpend(this.spend.describe(getSettings()));
+        }
+        const result = plan ? mergeCarriedOver(fresh, plan) : fresh!;
+        // Files of failed batches would otherwise count as reviewed on the next run.
+        if (fresh && !fresh.incomplete) {
+          await this.history.save(diff, fingerprint, result);
+        } else if (fresh) {
+          this.output.appendLine("[info] Incomplete review not saved for incremental re-runs");
+        }
+
+        if (opts.quiet) {
+          ReviewPanel.updateIfOpen(result, diff.repositoryRoot);
+        } else {
+          this.showResult(diff, result, opts.title);
+        }
+        return result;
+      },
+    );
+  }
+
+  /**
+   * Stop (or, in warn mode, ask) before a review whose estimate would exceed a budget.
+   * Background reviews cannot ask, so in warn mode they only log.
+   */
+  private async checkBudget(estimateUsd: number, opts: ReviewOptions): Promise<void> {
+    const settings = getSettings();
+    const problem = this.spend.overBudget(estimateUsd, settings);
+    if (!problem) return;
+    if (settings.budgetMode === "refuse") {
+      throw new BudgetExceededError(`Review not started. ${problem}`);
+    }
+    if (opts.quiet) {
+      this.output.appendLine(`[warn] ${problem}`);
+      return;
+    }
+    const choice = await vscode.window.showWarningMessage(
+      "This review would exceed your spend budget.",
+      { modal: true, detail: problem },
+      "Review Anyway",
+    );
+    if (choice !== "Review Anyway") {
+      throw new BudgetExceededError(`Review not started. ${problem}`);
+    }
+  }
+
+  showResult(diff: GitDiffResult, result: ReviewResult, title?: string): void {
+    ReviewPanel.createOrShow(this.context.extensionUri, result, {
+      rootUri: diff.repositoryRoot,
+      title: this.panelTitle(diff, title),
+    });
+  }
+
+  // With several repositories open, name the one a panel belongs to.
+  private panelTitle(diff: GitDiffResult, title = "Code Review"): string {
+    if (this.git.listRepositories().length <= 1) return title;
+    return `${title} [${path.basename(diff.repositoryRoot.fsPath)}]`;
+  }
+}
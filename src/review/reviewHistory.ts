@@ -0,0 +1,164 @@
+import { createHash } from "crypto";
+import type * as vscode from "vscode";
+import { applySelection, listDiffFiles } from "../git/diffSelection";
+import type { GitDiffResult } from "../git/gitManager";
+import {
+  ReviewResultSchema,
+  type ReviewedFinding,
+  type ReviewedFix,
+  type ReviewResult,
+} from "../schema/reviewOutput";
+
+const HISTORY_KEY = "vscodeCodeReview.reviewHistory";
+// Old entries are dropped beyond this many reviewed targets per workspace.
+const MAX_ENTRIES = 20;
+
+interface StoredReview {
+  /** Prompt/model the review ran with; a different one invalidates the entry. */
+  fingerprint: string;
+  /** Per-file hash of the reviewed diff, keyed by repository-relative path. */
+  fileHashes: Record<string, string>;
+  result: ReviewResult;
+  reviewedAt: number;
+}
+
+export interface IncrementalPlan {
+  /** The part of the diff that needs a fresh review (undefined when nothing changed). */
+  diff: GitDiffResult | undefined;
+  /** Files whose diff is identical to the last review. */
+  unchangedFiles: string[];
+  /** Findings and fixes from the last review for `unchangedFiles`, marked as carried over. */
+  carried: Pick<ReviewResult, "findings" | "fixes">;
+  previousMarkdown: string;
+}
+
+/**
+ * Hash of each file's diff across all sections. Only hunk content counts, so a file whose
+ * changes did not move keeps its hash when other files change.
+ */
+export function fileDiffHashes(diff: GitDiffResult): Record<string, string> {
+  const parts = new Map<string, string[]>();
+  for (const file of listDiffFiles(diff)) {
+    const list = parts.get(file.path) ?? [];
+    list.push(file.state, ...file.hunks.flatMap((h) => h.lines));
+    if (file.binary) list.push(...file.headerLines);
+    parts.set(file.path, list);
+  }
+  const hashes: Record<string, string> = {};
+  for (const [file, lines] of parts) {
+    hashes[file] = createHash("sha1").update(lines.join("\n")).digest("hex");
+  }
+  return hashes;
+}
+
+function targetKey(diff: GitDiffResult): string {
+  return [diff.repositoryRoot.toString(), diff.scope, diff.range?.label ?? ""].join("|");
+}
+
+/**
+ * Remembers the last review per repository and diff target, so a re-run only reviews the
+ * files whose diff changed since then and carries the rest forward.
+ */
+export class ReviewHistory {
+  constructor(private readonly state: vscode.Memento) {}
+
+  private entries(): Record<string, StoredReview> {
+    return this.state.get<Record<string, StoredReview>>(HISTORY_KEY) ?? {};
+  }
+
+  /** Undefined when there is no usable previous review for this diff. */
+  plan(diff: GitDiffResult, fingerprint: string): IncrementalPlan | undefined {
+    const prev = this.entries()[targetKey(diff)];
+    if (!prev || prev.fingerprint !== fingerprint) return undefined;
+    const prevResult = ReviewResultSchema.safeParse(prev.result);
+    if (!prevResult.success) return undefined;
+
+    const hashes = fileDiffHashes(diff);
+    const unchanged = new Set(
+      Object.keys(hashes).filter((file) => prev.fileHashes[file] === hashes[file]),
+    );
+    if (unchanged.size === 0) return undefined;
+
+    const changedKeys = new Set(
+      listDiffFiles(diff)
+        .filter((f) => !unchanged.has(f.path))
+        .map((f) => f.key),
+    );
+    const isCarried = (filePath: string | null) => filePath !== null && unchanged.has(filePath);
+
+    return {
+      diff: changedKeys.size > 0 ? applySelection(diff, changedKeys) : undefined,
+      unchangedFiles: [...unchanged],
+      carried: {
+        findings: prevResult.data.findings
+          .filter((f) => isCarried(f.filePath))
+          .map((f): ReviewedFinding => ({ ...f, carriedOver: true })),
+        fixes: prevResult.data.fixes
+          .filter((f) => isCarried(f.filePath))
+          .map((f): ReviewedFix => ({ ...f, carriedOver: true })),
+      },
+      previousMarkdown: prevResult.data.reviewMarkdown,
+    };
+  }
+
+  async clear(): Promise<void> {
+    await this.state.update(HISTORY_KEY, undefined);
+  }
+
+  async save(diff: GitDiffResult, fingerprint: string, result: ReviewResult): Promise<void> {
+    const entries = this.entries();
+    entries[targetKey(diff)] = {
+      fingerprint,
+      fileHashes: fileDiffHashes(diff),
+      result,
+      reviewedAt: Date.now(),
+    };
+    const kept = Object.entries(entries)
+      .sort(([, a], [, b]) => b.reviewedAt - a.reviewedAt)
+      .slice(0, MAX_ENTRIES);
+    await this.state.update(HISTORY_KEY, Object.fromEntries(kept));
+  }
+}
+
+/** Combine a fresh review of the changed files with what was carried over. */
+export function mergeCarriedOver(
+  fresh: ReviewResult | undefined,
+  plan: IncrementalPlan,
+): ReviewResult {
+  const fixIds = new Set(fresh?.fixes.map((f) => f.id));
+  const renamed = new Map<string, string>();
+  const carriedFixes = plan.carried.fixes
+    .map((f) => {
+      let id = f.id;
+      for (let n = 2; fixIds.has(id); n++) id = `${f.id}-${n}`;
+      fixIds.add(id);
+      renamed.set(f.id, id);
+      return { ...f, id };
+    })
+    .map((f) =>
+      f.alternativeOf
+        ? { ...f, alternativeOf: renamed.get(f.alternativeOf) ?? f.alternativeOf }
+        : f,
+    );
+
+  if (!fresh) {
+    return {
+      reviewMarkdown: `${plan.previousMarkdown.trim()}\n\n---\n\n_No changes since the last review._`,
+      findings: plan.carried.findings,
+      fixes: carriedFixes,
+    };
+  }
+
+  const files = plan.unchangedFiles.length;
+  const note =
+    `_${files} file${files === 1 ? "" : "s"} unchanged since the last review; ` +
+    `${plan.carried.findings.length} finding(s) and ${carriedFixes.length} fix(es) carried over._`;
+
+  return {
+    reviewMarkdown: `${fresh.reviewMarkdown.trim()}\n\n---\n\n${note}`,
+    findings: [...fresh.findings, ...plan.carried.findings],
+    fixes: [...fresh.fixes, ...carriedFixes],
+    ...(fresh.dropped ? { dropped: fresh.dropped } : {}),
+    ...(fresh.incomplete ? { incomplete: true } : {}),
+  };
+}
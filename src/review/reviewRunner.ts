@@ -1,7 +1,21 @@
-import * as vscode from "vscode";
-import { generateText, Output, stepCountIs, type Tool } from "ai";
+import {
+  APICallError,
+  generateText,
+  NoObjectGeneratedError,
+  NoOutputSpecifiedError,
+  Output,
+  parsePartialJson,
+  stepCountIs,
+  streamText,
+  UnsupportedFunctionalityError,
+  type LanguageModelUsage,
+  type Tool,
+} from "ai";
 import { z } from "zod";
-import { resolveModel } from "../ai/modelFactory";
+import { providerLabel, resolveModel, type ResolvedModel } from "../ai/modelFactory";
+import { classifyProviderError, describeProviderError, ProviderError } from "../ai/providerErrors";
+import { withRetries, type RetryOptions } from "../ai/retry";
+import type { ModelRef } from "../config/settingsCore";
 import {
   createWorkspaceTools,
   ListFilesInputSchema,
@@ -9,113 +23,277 @@ import {
   SearchInputSchema,
 } from "../context/workspaceTools";
 import { createRulesTools } from "../context/rulesTools";
-import type { GitDiffResult } from "../git/gitManager";
-import { ReviewOutputSchema, type ReviewOutput } from "../schema/reviewOutput";
-
-function isRecord(value: unknown): value is Record<string, unknown> {
-  return typeof value === "object" && value !== null;
-}
-
-function getArray(obj: Record<string, unknown>, key: string): unknown[] {
-  const v = obj[key];
-  return Array.isArray(v) ? v : [];
-}
-
-function getString(obj: Record<string, unknown>, key: string): string | undefined {
-  const v = obj[key];
-  return typeof v === "string" ? v : undefined;
-}
+import { relativeToRoot, type PathRef } from "../context/paths";
+import { changedLineMap, formatLineRanges } from "../git/diffParser";
+import type { GitDiffResult } from "../git/gitDiff";
+import { withSettings, type ReviewHost, type ReviewLog } from "../host/reviewHost";
+import {
+  FINDING_CATEGORIES,
+  ReviewOutputSchema,
+  type Finding,
+  type ReviewResult,
+} from "../schema/reviewOutput";
+import { listDiffFiles } from "../git/diffSelection";
+import {
+  CHARS_PER_TOKEN,
+  mapWithConcurrency,
+  mergeReviewResults,
+  splitIntoBatches,
+} from "./batching";
+import { ChangedLines, dropFixesOutsideRoot, parseReviewDiff, scopeToDiff } from "./diffScope";
+import { extractJson, reviewOutputErrors, salvageReviewOutput } from "./outputRepair";
 
-function getNumber(obj: Record<string, unknown>, key: string): number | undefined {
-  const v = obj[key];
-  return typeof v === "number" ? v : undefined;
+interface DiffSection {
+  state: "staged" | "unstaged" | "untracked" | "committed";
+  diffName: string;
+  diff: string;
+  files: PathRef[];
 }
 
-function normalizeReviewOutput(input: unknown): unknown {
-  if (!isRecord(input)) return input;
-  const root = input;
-
-  const findingsIn = getArray(root, "findings");
-  const fixesIn = getArray(root, "fixes");
-
-  const findings = findingsIn
-    .map((f) => {
-      if (!isRecord(f)) return null;
-      const severity = getString(f, "severity");
-      const title = getString(f, "title");
-      if (!severity || !title) return null;
-      return {
-        severity,
-        title,
-        filePath: getString(f, "filePath") ?? null,
-        startLine: getNumber(f, "startLine") ?? null,
-        endLine: getNumber(f, "endLine") ?? null,
-        rationale: getString(f, "rationale") ?? null,
-      };
-    })
-    .filter(Boolean);
-
-  const fixes = fixesIn
-    .map((f) => {
-      if (!isRecord(f)) return null;
-      const id = getString(f, "id");
-      const title = getString(f, "title");
-      const filePath = getString(f, "filePath");
-      const startLine = getNumber(f, "startLine");
-      const endLine = getNumber(f, "endLine");
-      const replacement = getString(f, "replacement");
-      if (
-        !id ||
-        !title ||
-        !filePath ||
-        startLine === undefined ||
-        endLine === undefined ||
-        !replacement
-      )
-        return null;
-      return {
-        id,
-        title,
-        filePath,
-        startLine,
-        endLine,
-        replacement,
-        expectedOriginalSnippet: getString(f, "expectedOriginalSnippet") ?? null,
-      };
-    })
-    .filter(Boolean);
-
-  return {
-    reviewMarkdown: getString(root, "reviewMarkdown") ?? "",
-    findings,
-    fixes,
-  };
+function diffSections(diff: GitDiffResult<PathRef>): DiffSection[] {
+  const sections: DiffSection[] = [];
+  if (diff.stagedDiff.trim()) {
+    sections.push({
+      state: "staged",
+      diffName: "STAGED_DIFF",
+      diff: diff.stagedDiff,
+      files: diff.stagedFiles,
+    });
+  }
+  if (diff.unstagedDiff.trim()) {
+    sections.push({
+      state: "unstaged",
+      diffName: "UNSTAGED_DIFF",
+      diff: diff.unstagedDiff,
+      files: diff.unstagedFiles,
+    });
+  }
+  if (diff.untrackedDiff.trim()) {
+    sections.push({
+      state: "untracked",
+      diffName: "UNTRACKED_DIFF",
+      diff: diff.untrackedDiff,
+      files: diff.untrackedFiles,
+    });
+  }
+  if (diff.committedDiff.trim()) {
+    sections.push({
+      state: "committed",
+      diffName: "COMMITTED_DIFF",
+      diff: diff.committedDiff,
+      files: diff.committedFiles,
+    });
+  }
+  return sections;
 }
 
 export interface RunReviewArgs {
-  extensionUri: vscode.Uri;
-  diff: GitDiffResult;
+  host: ReviewHost;
+  /** Directory of markdown rules offered to the model. */
+  rulesDir: string;
+  diff: GitDiffResult<PathRef>;
   systemPrompt: string;
-  output?: vscode.OutputChannel;
+  output?: ReviewLog;
   onActivity?: (event: {
-    type: "readFile" | "listFiles" | "search" | "readRule";
+    type: "readFile" | "listFiles" | "search" | "readRule" | "toolError" | "retry" | "fallback";
     detail: string;
   }) => void;
+  /** The review so far while the model is still writing it; fixes only come with the result. */
+  onPartial?: (partial: PartialReview) => void;
+  /** Cumulative token usage of the whole review. */
   onUsage?: (usage: unknown) => void;
+  /** Cumulative token usage per model, including fallback models, for pricing. */
+  onModelUsage?: (model: ModelRef, usage: UsageTotals) => void;
+  /** Progress of large diffs that are reviewed in several batches. */
+  onBatch?: (event: BatchProgress) => void;
   abortSignal?: AbortSignal;
 }
 
-export async function runReview(args: RunReviewArgs): Promise<ReviewOutput> {
-  const resolved = await resolveModel();
+export interface PartialReview {
+  reviewMarkdown: string;
+  findings: Finding[];
+}
+
+export interface UsageTotals {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+export interface BatchProgress {
+  /** 0-based batch index. */
+  index: number;
+  total: number;
+  files: number;
+  status: "running" | "done" | "failed";
+}
+
+export async function runReview(args: RunReviewArgs): Promise<ReviewResult> {
+  const settings = args.host.getSettings();
+  const primary: ModelRef = { provider: settings.provider, model: settings.model };
+  const modelKey = (m: ModelRef) => `${m.provider}|${m.model}`;
+  const chain = [primary];
+  for (const m of settings.fallbackModels) {
+    if (!chain.some((c) => modelKey(c) === modelKey(m))) chain.push(m);
+  }
+  // The configured model is resolved up front, so a missing API key fails before any work.
+  const models = new Map<string, Promise<ResolvedModel>>([
+    [modelKey(primary), Promise.resolve(await resolveModel(args.host))],
+  ]);
+  const modelFor = (m: ModelRef) => {
+    let resolved = models.get(modelKey(m));
+    if (!resolved) {
+      resolved = resolveModel(withSettings(args.host, { provider: m.provider, model: m.model }));
+      models.set(modelKey(m), resolved);
+    }
+    return resolved;
+  };
+
+  const usageByModel = new Map<string, UsageTotals>();
+  const addUsage = (m: ModelRef, usage: LanguageModelUsage | undefined) => {
+    const entry = usageByModel.get(modelKey(m)) ?? {
+      inputTokens: 0,
+      outputTokens: 0,
+      totalTokens: 0,
+    };
+    entry.inputTokens += usage?.inputTokens ?? 0;
+    entry.outputTokens += usage?.outputTokens ?? 0;
+    entry.totalTokens +=
+      usage?.totalTokens ?? (usage?.inputTokens ?? 0) + (usage?.outputTokens ?? 0);
+    usageByModel.set(modelKey(m), entry);
+    args.onModelUsage?.(m, { ...entry });
+    const total = { inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+    for (const u of usageByModel.values()) {
+      total.inputTokens += u.inputTokens;
+      total.outputTokens += u.outputTokens;
+      total.totalTokens += u.totalTokens;
+    }
+    args.onUsage?.(total);
+  };
+
+  // Latest partial review per batch, emitted together like `mergeReviewResults` would.
+  const partials: PartialReview[] = [];
+  const emitPartial = (index: number, total: number, partial: PartialReview) => {
+    partials[index] = partial;
+    const parts = partials.filter(Boolean);
+    args.onPartial?.({
+      reviewMarkdown:
+        total === 1
+          ? partial.reviewMarkdown
+          : partials
+              .map((p, i) =>
+                p ? `## Part ${i + 1} of ${total}\n\n${p.reviewMarkdown.trim()}` : "",
+              )
+              .filter(Boolean)
+              .join("\n\n---\n\n"),
+      findings: parts.flatMap((p) => p.findings),
+    });
+  };
+
+  const report = (type: "retry" | "fallback", detail: string) => {
+    args.output?.appendLine(`[warn] ${detail}`);
+    args.onActivity?.({ type, detail });
+  };
+
+  /**
+   * Review with the configured model, retrying transient provider errors; when it keeps
+   * failing, try each fallback model in turn. The last error is thrown when all fail.
+   */
+  const generateWithFallback = async (
+    system: string,
+    prompt: string,
+    batch?: { index: number; total: number },
+  ): Promise<ReviewResult> => {
+    const batchLabel = batch ? ` (batch ${batch.index + 1}/${batch.total})` : "";
+    let lastError: unknown;
+    let lastLabel = "";
+    for (const [i, m] of chain.entries()) {
+      const label = `${providerLabel(m.provider)} ${m.model}`;
+      let model: ResolvedModel;
+      try {
+        model = await modelFor(m);
+      } catch (err) {
+        args.output?.appendLine(
+          `[warn] Skipping fallback ${label}: ${err instanceof Error ? err.message : String(err)}`,
+        );
+        continue;
+      }
+      try {
+        return await generateReview(model.model, system, prompt, tools, {
+          abortSignal: args.abortSignal,
+          maxRetries: settings.maxRetries,
+          onUsage: (usage) => addUsage(m, usage),
+          onPartial: (partial) => emitPartial(batch?.index ?? 0, batch?.total ?? 1, partial),
+          onToolError: (toolName, error) =>
+            args.onActivity?.({ type: "toolError", detail: `${toolName}: ${error}` }),
+          onWarning: (message) =>
+            args.output?.appendLine(`[warn] ${label}${batchLabel}: ${message}`),
+          onRetry: ({ attempt, delayMs, error }) =>
+            report(
+              "retry",
+              `${label}${batchLabel}: ${describeProviderError(error)}, retry ${attempt} of ${settings.maxRetries} in ${Math.ceil(delayMs / 1000)}s`,
+            ),
+        });
+      } catch (err) {
+        if (args.abortSignal?.aborted || (err instanceof Error && err.name === "AbortError")) {
+          throw err;
+        }
+        lastError = err;
+        lastLabel = label;
+        const error = classifyProviderError(err);
+        args.output?.appendLine(
+          `[error] ${label}${batchLabel}: ${describeProviderError(error)}: ${error.message}`,
+        );
+        const next = chain[i + 1];
+        if (next) {
+          report(
+            "fallback",
+            `${label} failed (${describeProviderError(error)}); trying ${providerLabel(next.provider)} ${next.model}`,
+          );
+        }
+      }
+    }
+    if (lastError === undefined) throw new Error("No model could be used for the review.");
+    const error = classifyProviderError(lastError);
+    if (error.kind === "other") throw lastError;
+    throw new ProviderError(
+      `${lastLabel}: ${describeProviderError(error)}: ${error.message}`,
+      error.kind,
+      error.status,
+    );
+  };
 
   const wsTools = createWorkspaceTools(
-    { maxBytesPerFile: 200_000, maxTotalBytes: 1_000_000, onEvent: args.onActivity },
+    {
+      root: args.diff.repositoryRoot,
+      fs: args.host.fs,
+      maxBytesPerFile: 200_000,
+      maxTotalBytes: 1_000_000,
+      onEvent: args.onActivity,
+    },
     args.output,
   );
-  const rulesTools = createRulesTools(args.extensionUri, {
+  const rulesTools = createRulesTools(args.rulesDir, args.host.fs, {
     onEvent: (e) => args.onActivity?.(e),
   });
 
+  // Rule references are only useful when they name a rule file that exists.
+  let knownRuleIds: Promise<Set<string>> | undefined;
+  const checkRuleIds = async (output: ReviewResult) => {
+    if (!output.findings.some((f) => f.ruleId)) return;
+    knownRuleIds ??= rulesTools.listRuleIds().then(
+      (ids) => new Set(ids),
+      () => new Set(),
+    );
+    const ids = await knownRuleIds;
+    for (const f of output.findings) {
+      if (f.ruleId && !ids.has(f.ruleId)) {
+        args.output?.appendLine(`[warn] Unknown ruleId "${f.ruleId}" removed from "${f.title}"`);
+        f.ruleId = null;
+      }
+    }
+  };
+
   const ListRulesInputSchema = z.object({});
   const ReadRuleInputSchema = z.object({ id: z.string().min(1) });
 
@@ -183,9 +361,6 @@ export async function runReview(args: RunReviewArgs): Promise<ReviewOutput> {
     return lines.join("\n");
   }
 
-  const rel = (u: vscode.Uri) => vscode.workspace.asRelativePath(u, false).replaceAll("\\", "/");
-  const unstaged = args.diff.unstagedFiles.map(rel);
-
   let tree = "";
   try {
     const listed = await wsTools.listFiles({ root: undefined, maxEntries: 2000 });
@@ -194,65 +369,401 @@ export async function runReview(args: RunReviewArgs): Promise<ReviewOutput> {
     tree = "(workspace tree unavailable)";
   }
 
-  const prompt = [
-    "PROJECT TREE (workspace-relative paths):",
-    tree,
-    "",
-    `FILES UNDER REVIEW (UNSTAGED) (${unstaged.length}):`,
-    ...unstaged.map((p) => `- ${p}`),
-    "",
-    "UNSTAGED_DIFF (THE ONLY THING YOU MAY REVIEW):",
-    args.diff.unstagedDiff,
-  ].join("\n");
-
-  const system = [
-    args.systemPrompt,
-    "",
-    "CRITICAL CONSTRAINTS (must follow):",
-    "- You MUST review ONLY the code in the section 'UNSTAGED_DIFF'.",
-    "- You may use tools (readFile/search/listFiles/listRules/readRule) ONLY to gather context to understand the UNSTAGED_DIFF.",
-    "- DO NOT create findings or fixes about any code not present in UNSTAGED_DIFF, even if you read it as context.",
-    "- If you suspect an issue in context-only code, mention it ONLY if it is directly caused by, referenced by, or required to validate a change in UNSTAGED_DIFF.",
-  ].join("\n");
+  const policy = settings.outOfDiffFindings;
 
-  // Prefer structured output: forces required fields to be present (nullable fields must be `null`).
+  const reviewBatch = async (
+    diff: GitDiffResult<PathRef>,
+    batch?: { index: number; total: number },
+  ): Promise<ReviewResult> => {
+    const rel = (u: PathRef) => relativeToRoot(diff.repositoryRoot, u);
+    const sections = diffSections(diff);
+    const filesUnderReview = [
+      ...sections.flatMap((s) =>
+        s.files.map((u) =>
+          s.state === "untracked"
+            ? `- [untracked, added file] ${rel(u)}`
+            : `- [${s.state}] ${rel(u)}`,
+        ),
+      ),
+      ...(diff.skippedFiles ?? []).map(
+        (f) => `- [untracked, skipped: ${f.reason}; content not shown] ${f.path}`,
+      ),
+    ];
+    const diffNames = sections.map((s) => s.diffName).join(", ");
+    const stateLabels = sections.map((s) => `[${s.state}]`).join(", ");
+    const commits = (diff.commits ?? []).map(
+      (c) => `- commit ${c.sha} | ${c.author} <${c.email}> | ${c.date} | ${c.subject}`,
+    );
+
+    const diffFiles = parseReviewDiff(diff);
+    const changedRanges = [...changedLineMap(diffFiles)]
+      .filter(([, lines]) => lines.size > 0)
+      .map(([file, lines]) => `- ${file}: ${formatLineRanges(lines)}`);
+
+    const prompt = [
+      "PROJECT TREE (repository-relative paths):",
+      tree,
+      "",
+      ...(batch
+        ? [
+            `BATCH ${batch.index + 1} OF ${batch.total}: this change is too large for one review, so only part of it is shown below. Other files are reviewed separately.`,
+            "",
+          ]
+        : []),
+      ...(diff.range ? [`COMMIT RANGE: ${diff.range.label}`, ""] : []),
+      `FILES UNDER REVIEW (${filesUnderReview.length}):`,
+      ...(commits.length > 0
+        ? [`Commits (${commits.length}, newest first):`, ...commits, "Files:"]
+        : []),
+      ...filesUnderReview,
+      ...(changedRanges.length > 0
+        ? [
+            "",
+            "CHANGED LINE RANGES (line numbers in the new version of each file):",
+            ...changedRanges,
+          ]
+        : []),
+      ...sections.flatMap((s) => [
+        "",
+        `${s.diffName} (${s.state.toUpperCase()} CHANGES, REVIEWABLE):`,
+        s.diff,
+      ]),
+    ].join("\n");
+
+    const system = [
+      args.systemPrompt,
+      "",
+      "CRITICAL CONSTRAINTS (must follow):",
+      `- You MUST review ONLY the code in the diff section(s): ${diffNames}.`,
+      `- Each file under review is labeled with the state its changes came from (${stateLabels}).`,
+      ...(diff.untrackedDiff.trim()
+        ? [
+            "- UNTRACKED_DIFF contains brand-new files that are not in Git yet: review their FULL contents as added code.",
+          ]
+        : []),
+      "- You may use tools (readFile/search/listFiles/listRules/readRule) ONLY to gather context to understand the diff.",
+      "- DO NOT create findings or fixes about any code not present in the diff, even if you read it as context.",
+      "- Findings and fixes MUST point at lines listed under CHANGED LINE RANGES; anything else is flagged or discarded.",
+      "- If you suspect an issue in context-only code, mention it ONLY if it is directly caused by, referenced by, or required to validate a change in the diff.",
+      `- Give every finding a category (${FINDING_CATEGORIES.join(", ")}) and your confidence (0-1) that it is a real problem.`,
+      "- Set a finding's ruleId ONLY to an id returned by listRules, and only when that rule is what the finding is based on; otherwise null.",
+      "- A change that needs several edits (a rename and its call sites, an import plus the code using it, a new or deleted file) is ONE fix: put the other edits in its additionalEdits instead of suggesting separate fixes for overlapping lines.",
+      "- Set cwe (e.g. CWE-89) only for security findings that match a known weakness, and suggestedTest only when you can describe a concrete test that would catch the problem.",
+    ].join("\n");
+
+    const output = dropFixesOutsideRoot(
+      await generateWithFallback(system, prompt, batch),
+      diff.repositoryRoot,
+    );
+    for (const d of output.dropped ?? []) {
+      args.output?.appendLine(
+        `[warn] Dropped ${d.kind} "${d.summary}" from the review: ${d.reason}`,
+      );
+    }
+
+    await checkRuleIds(output);
+    const scoped = scopeToDiff(output, new ChangedLines(diffFiles, diff.repositoryRoot), policy);
+    const flagged = [...scoped.findings, ...scoped.fixes].filter((f) => f.outsideDiff).length;
+    const dropped =
+      output.findings.length + output.fixes.length - scoped.findings.length - scoped.fixes.length;
+    if (flagged + dropped > 0) {
+      args.output?.appendLine(
+        `[info] Outside the changed lines: ${flagged} flagged, ${dropped} dropped (outOfDiffFindings: ${policy})`,
+      );
+    }
+    return scoped;
+  };
+
+  for (const f of args.diff.skippedFiles ?? []) {
+    args.output?.appendLine(`[info] Untracked file not reviewed (${f.reason}): ${f.path}`);
+  }
+  const batches = splitIntoBatches(args.diff, settings.batchMaxTokens);
+  if (batches.length === 1) return reviewBatch(args.diff);
+
+  args.output?.appendLine(
+    `[info] Large diff: reviewing ${batches.length} batches, ${settings.batchConcurrency} at a time`,
+  );
+  const failures: string[] = [];
+  const results = await mapWithConcurrency(
+    batches,
+    settings.batchConcurrency,
+    async (batch, index) => {
+      const info = { index, total: batches.length, files: listDiffFiles(batch).length };
+      // Don't start queued batches once the review was cancelled.
+      args.abortSignal?.throwIfAborted();
+      args.onBatch?.({ ...info, status: "running" });
+      try {
+        const result = await reviewBatch(batch, info);
+        args.onBatch?.({ ...info, status: "done" });
+        return result;
+      } catch (err) {
+        args.onBatch?.({ ...info, status: "failed" });
+        if (err instanceof Error && err.name === "AbortError") throw err;
+        const msg = err instanceof Error ? err.message : String(err);
+        args.output?.appendLine(`[error] Batch ${index + 1}/${batches.length}: ${msg}`);
+        failures.push(`Batch ${index + 1} of ${batches.length} failed: ${msg}`);
+        if (failures.length === batches.length) throw err;
+        return undefined;
+      }
+    },
+  );
+
+  const merged = mergeReviewResults(results.filter((r): r is ReviewResult => r !== undefined));
+  if (failures.length === 0) return merged;
+  return {
+    ...merged,
+    incomplete: true,
+    reviewMarkdown: `> **Incomplete review.** ${failures.join(" ")}\n\n${merged.reviewMarkdown}`,
+  };
+}
+
+interface GenerateOptions {
+  abortSignal?: AbortSignal;
+  maxRetries: number;
+  onUsage: (usage: LanguageModelUsage | undefined) => void;
+  onPartial: (partial: PartialReview) => void;
+  onToolError: (toolName: string, error: string) => void;
+  onRetry: RetryOptions["onRetry"];
+  /** Problems with the model's answer that were worked around. */
+  onWarning: (message: string) => void;
+}
+
+/** The complete findings of a partially streamed review object. */
+function toPartialReview(value: unknown): PartialReview {
+  const { reviewMarkdown, findings } = salvageReviewOutput(value).output;
+  return { reviewMarkdown, findings };
+}
+
+/**
+ * Usage of an attempt that failed before the provider reported it, estimated from what was
+ * sent and received. None when the provider rejected the request (a 4xx status such as a
+ * rate limit or a missing key), as nothing was generated then.
+ */
+function estimateFailedUsage(
+  err: unknown,
+  system: string,
+  prompt: string,
+  received = "",
+): LanguageModelUsage | undefined {
+  if (APICallError.isInstance(err) && err.statusCode !== undefined && err.statusCode < 500) {
+    return undefined;
+  }
+  const inputTokens = Math.ceil((system.length + prompt.length) / CHARS_PER_TOKEN);
+  const outputTokens = Math.ceil(received.length / CHARS_PER_TOKEN);
+  return { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens };
+}
+
+/**
+ * Stream a structured review, reporting the partial object as it grows. Resolves with the
+ * final step's text (the JSON object). Usage is reported for every attempt, failed ones
+ * included: the steps the provider finished, or an estimate when none did. Stream errors
+ * are thrown as the provider raised them, so they can be retried and classified.
+ */
+async function streamReview(
+  model: ResolvedModel["model"],
+  system: string,
+  prompt: string,
+  tools: Record<string, Tool<unknown, unknown>>,
+  opts: GenerateOptions,
+): Promise<string> {
+  const result = streamText({
+    model,
+    system,
+    prompt,
+    tools,
+    stopWhen: stepCountIs(20),
+    experimental_output: Output.object({ schema: ReviewOutputSchema }),
+    maxRetries: 0,
+    abortSignal: opts.abortSignal,
+    // Errors arrive as stream parts below.
+    onError: () => {},
+  });
+
+  let text = "";
+  let lastPartial = "";
+  // Finished steps, for failed attempts; `finish` reports the total of a complete one.
+  const steps: LanguageModelUsage[] = [];
   try {
-    const result = await generateText({
-      model: resolved.model,
-      system,
-      prompt,
-      tools,
-      stopWhen: stepCountIs(20),
-      experimental_output: Output.object({ schema: ReviewOutputSchema }),
-      abortSignal: args.abortSignal,
-    });
+    for await (const part of result.fullStream) {
+      switch (part.type) {
+        case "start-step":
+          text = "";
+          break;
+        case "finish-step":
+          steps.push(part.usage);
+          break;
+        case "text-delta": {
+          text += part.text;
+          const { value } = await parsePartialJson(text);
+          if (value === undefined) break;
+          const partial = toPartialReview(value);
+          const key = JSON.stringify(partial);
+          if (key !== lastPartial) {
+            lastPartial = key;
+            opts.onPartial(partial);
+          }
+          break;
+        }
+        case "tool-error":
+          opts.onToolError(
+            part.toolName,
+            part.error instanceof Error ? part.error.message : String(part.error),
+          );
+          break;
+        case "finish":
+          opts.onUsage(part.totalUsage);
+          return text;
+        case "error":
+          throw part.error;
+        case "abort":
+          opts.abortSignal?.throwIfAborted();
+          break;
+      }
+    }
+  } catch (err) {
+    if (steps.length > 0) {
+      for (const usage of steps) opts.onUsage(usage);
+    } else {
+      opts.onUsage(estimateFailedUsage(err, system, prompt, text));
+    }
+    throw err;
+  }
+  return text;
+}
+
+/**
+ * True when the model could not produce the requested structured output: its answer did
+ * not match the schema, or the provider does not support a JSON response format.
+ */
+function isStructuredOutputFailure(err: unknown): boolean {
+  if (NoObjectGeneratedError.isInstance(err) || NoOutputSpecifiedError.isInstance(err)) {
+    return true;
+  }
+  if (UnsupportedFunctionalityError.isInstance(err)) return true;
+  return (
+    APICallError.isInstance(err) &&
+    err.statusCode === 400 &&
+    /response_format|json_schema|structured output/i.test(
+      `${err.message} ${err.responseBody ?? ""}`,
+    )
+  );
+}
+
+const REPAIR_SYSTEM_PROMPT = [
+  "You repair JSON. You get a code review that should be a JSON object matching a schema, and the errors found in it.",
+  "Return only the corrected JSON object. Fix just the listed errors: keep every finding and fix and do not change their content otherwise.",
+  'The object has "reviewMarkdown" (string), "findings" (array of { severity: "critical" | "high" | "medium" | "low", title, filePath, startLine, endLine, rationale, category, confidence, ruleId, cwe, suggestedTest }) and "fixes" (array of { id, title, filePath, startLine, endLine, replacement, expectedOriginalSnippet, additionalEdits: array of { kind: "replace" | "create" | "delete", filePath, startLine, endLine, replacement, expectedOriginalSnippet } }). Use null for unknown nullable values.',
+].join("\n");
 
-    args.onUsage?.(result.usage);
-    return result.experimental_output as ReviewOutput;
+/**
+ * Turn the model's answer into review output without running the review again. Valid
+ * output is used as is, and output that only lacks nullable fields is completed locally.
+ * Otherwise the model is asked to correct just the JSON, given the validation errors; if
+ * that fails too, the valid items are kept and the rest reported in `dropped`. Undefined
+ * when the answer holds no JSON object at all.
+ */
+async function repairReviewOutput(
+  model: ResolvedModel["model"],
+  text: string,
+  structured: boolean,
+  opts: GenerateOptions,
+): Promise<ReviewResult | undefined> {
+  const errors = reviewOutputErrors(text);
+  if (!errors) return ReviewOutputSchema.parse(JSON.parse(text));
+  const json = extractJson(text);
+  if (json !== undefined) {
+    const local = salvageReviewOutput(json);
+    if (local.dropped.length === 0) return local.output;
+  }
+  if (!text.trim()) return undefined;
+
+  opts.onWarning(
+    `invalid review output, asking the model to repair the JSON (${errors.split("\n")[0].replace(/^✖\s*/, "")})`,
+  );
+  let repairedText: string | undefined;
+  try {
+    const result = await withRetries(
+      () =>
+        generateText({
+          model,
+          system: REPAIR_SYSTEM_PROMPT,
+          prompt: `ERRORS:\n${errors}\n\nJSON TO REPAIR:\n${text}`,
+          ...(structured
+            ? { experimental_output: Output.object({ schema: ReviewOutputSchema }) }
+            : {}),
+          maxRetries: 0,
+          abortSignal: opts.abortSignal,
+        }),
+      { maxRetries: opts.maxRetries, abortSignal: opts.abortSignal, onRetry: opts.onRetry },
+    );
+    opts.onUsage(result.totalUsage);
+    if (structured) return result.experimental_output;
+    repairedText = result.text;
   } catch (err) {
-    // Re-throw abort errors
-    if (err instanceof Error && err.name === "AbortError") {
+    if (opts.abortSignal?.aborted || (err instanceof Error && err.name === "AbortError")) {
       throw err;
     }
-    // Fallback: parse JSON and normalize missing nullable fields to null.
-    const result = await generateText({
-      model: resolved.model,
-      system,
-      prompt,
-      tools,
-      stopWhen: stepCountIs(20),
-      abortSignal: args.abortSignal,
-    });
+    if (NoObjectGeneratedError.isInstance(err)) {
+      opts.onUsage(err.usage);
+      repairedText = err.text;
+    }
+    opts.onWarning(
+      `JSON repair failed (${err instanceof Error ? err.message : String(err)}); keeping the valid items`,
+    );
+  }
 
-    args.onUsage?.(result.usage);
+  const source = (repairedText !== undefined ? extractJson(repairedText) : undefined) ?? json;
+  if (source === undefined) return undefined;
+  const { output, dropped } = salvageReviewOutput(source);
+  return dropped.length > 0 ? { ...output, dropped } : output;
+}
 
-    let json: unknown;
-    try {
-      json = JSON.parse(result.text);
-    } catch {
-      throw new Error("Model did not return valid JSON.");
-    }
+async function generateReview(
+  model: ResolvedModel["model"],
+  system: string,
+  prompt: string,
+  tools: Record<string, Tool<unknown, unknown>>,
+  opts: GenerateOptions,
+): Promise<ReviewResult> {
+  // Retries are ours (see `withRetries`), so each attempt can be reported.
+  const retry: RetryOptions = {
+    maxRetries: opts.maxRetries,
+    abortSignal: opts.abortSignal,
+    onRetry: opts.onRetry,
+  };
 
-    return ReviewOutputSchema.parse(normalizeReviewOutput(json));
+  // Prefer structured output: forces required fields to be present (nullable fields must be `null`).
+  try {
+    const text = await withRetries(() => streamReview(model, system, prompt, tools, opts), retry);
+    const repaired = await repairReviewOutput(model, text, true, opts);
+    if (repaired) return repaired;
+    opts.onWarning("the review contained no JSON; running it again without structured output");
+  } catch (err) {
+    // Provider errors and aborts are not fixed by asking again without a schema.
+    if (!isStructuredOutputFailure(err)) throw err;
   }
+
+  // Fallback for providers without structured output: plain text that should be JSON.
+  const result = await withRetries(
+    () =>
+      generateText({
+        model,
+        system,
+        prompt,
+        tools,
+        stopWhen: stepCountIs(20),
+        maxRetries: 0,
+        abortSignal: opts.abortSignal,
+      }).catch((err: unknown) => {
+        opts.onUsage(estimateFailedUsage(err, system, prompt));
+        throw err;
+      }),
+    retry,
+  );
+
+  opts.onUsage(result.totalUsage);
+
+  const repaired = await repairReviewOutput(model, result.text, false, opts);
+  if (!repaired) throw new Error("Model did not return valid JSON.");
+  return repaired;
 }
@@ -0,0 +1,25 @@
+import type { Finding, ReviewedFinding, ReviewResult } from "../schema/reviewOutput";
+
+export type Severity = Finding["severity"];
+
+const SEVERITY_RANK: Record<Severity, number> = { low: 0, medium: 1, high: 2, critical: 3 };
+
+/** Rejected by the verification pass: hidden by default and never counted. */
+export function isFiltered(item: { verification?: { status: string } }): boolean {
+  return item.verification?.status === "rejected";
+}
+
+/**
+ * Findings at or above `threshold`. Findings outside the changed lines, or rejected by
+ * verification, never count.
+ */
+export function findingsAtOrAbove(result: ReviewResult, threshold: Severity): ReviewedFinding[] {
+  return result.findings.filter(
+    (f) =>
+      !f.outsideDiff && !isFiltered(f) && SEVERITY_RANK[f.severity] >= SEVERITY_RANK[threshold],
+  );
+}
+
+export function moreSevere(a: Severity, b: Severity): Severity {
+  return SEVERITY_RANK[a] >= SEVERITY_RANK[b] ? a : b;
+}
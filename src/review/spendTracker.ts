@@ -0,0 +1,85 @@
+import type * as vscode from "vscode";
+import type { ExtensionSettings } from "../config/settings";
+import { formatUsd } from "./cost";
+
+const SPEND_KEY = "vscodeCodeReview.spend";
+
+interface StoredSpend {
+  /** Local calendar day (YYYY-MM-DD) and month (YYYY-MM) the totals belong to. */
+  day: string;
+  dayUsd: number;
+  month: string;
+  monthUsd: number;
+}
+
+export interface Spend {
+  todayUsd: number;
+  monthUsd: number;
+}
+
+type Budgets = Pick<ExtensionSettings, "dailyBudgetUsd" | "monthlyBudgetUsd">;
+
+/** A review that was not started because it would exceed a spend budget. */
+export class BudgetExceededError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BudgetExceededError";
+  }
+}
+
+function periods(now: Date): { day: string; month: string } {
+  const month = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}`;
+  return { day: `${month}-${String(now.getDate()).padStart(2, "0")}`, month };
+}
+
+/**
+ * Cumulative model spend of this machine across workspaces, kept in `globalState`. The
+ * totals restart with each calendar day and month.
+ */
+export class SpendTracker {
+  constructor(private readonly state: vscode.Memento) {}
+
+  current(now = new Date()): Spend {
+    const stored = this.state.get<StoredSpend>(SPEND_KEY);
+    const { day, month } = periods(now);
+    return {
+      todayUsd: stored?.day === day ? stored.dayUsd : 0,
+      monthUsd: stored?.month === month ? stored.monthUsd : 0,
+    };
+  }
+
+  async record(usd: number, now = new Date()): Promise<void> {
+    if (!(usd > 0)) return;
+    const spend = this.current(now);
+    const entry: StoredSpend = {
+      ...periods(now),
+      dayUsd: spend.todayUsd + usd,
+      monthUsd: spend.monthUsd + usd,
+    };
+    await this.state.update(SPEND_KEY, entry);
+  }
+
+  /** Why spending `usd` more would exceed a budget; undefined while within both. */
+  overBudget(usd: number, budgets: Budgets): string | undefined {
+    const spend = this.current();
+    const check = (label: string, spent: number, budget: number) =>
+      budget > 0 && spent + usd > budget
+        ? `${label} budget of ${formatUsd(budget)} would be exceeded: ${formatUsd(spent)} spent, this review is estimated at ${formatUsd(usd)}.`
+        : undefined;
+    return (
+      check("Daily", spend.todayUsd, budgets.dailyBudgetUsd) ??
+      check("Monthly", spend.monthUsd, budgets.monthlyBudgetUsd)
+    );
+  }
+
+  /** Sidebar summary, e.g. "Today $0.12 of $1.00 · This month $3.40". */
+  describe(budgets: Budgets): string {
+    const spend = this.current();
+    const part = (label: string, spent: number, budget: number) =>
+      `${label} ${formatUsd(spent)}${budget > 0 ? ` of ${formatUsd(budget)}` : ""}`;
+    return [
+      part("Today", spend.todayUsd, budgets.dailyBudgetUsd),
+      part("This month", spend.monthUsd, budgets.monthlyBudgetUsd),
+    ].join(" · ");
+  }
+}
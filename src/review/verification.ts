@@ -0,0 +1,292 @@
+import { generateText, Output } from "ai";
+import { z } from "zod";
+import { providerLabel, resolveModel } from "../ai/modelFactory";
+import { classifyProviderError, describeProviderError } from "../ai/providerErrors";
+import { withRetries } from "../ai/retry";
+import type { ModelRef } from "../config/settingsCore";
+import { relativeToRoot, resolvePath, type PathRef } from "../context/paths";
+import type { GitDiffResult } from "../git/gitDiff";
+import type { ReviewHost, ReviewLog } from "../host/reviewHost";
+import type {
+  ReviewedFinding,
+  ReviewedFix,
+  ReviewResult,
+  Verification,
+} from "../schema/reviewOutput";
+import { ChangedLines, parseReviewDiff } from "./diffScope";
+import type { UsageTotals } from "./reviewRunner";
+
+export interface VerifyFindingsArgs {
+  host: ReviewHost;
+  diff: GitDiffResult<PathRef>;
+  result: ReviewResult;
+  output?: ReviewLog;
+  onActivity?: (detail: string) => void;
+  /** Cumulative token usage of the verification requests, for pricing. */
+  onModelUsage?: (model: ModelRef, usage: UsageTotals) => void;
+  abortSignal?: AbortSignal;
+}
+
+// Lines of context around a finding, and the most lines one excerpt may show.
+const CONTEXT_LINES = 8;
+const MAX_EXCERPT_LINES = 80;
+// Findings judged per request; small enough that the model answers every one of them.
+const FINDINGS_PER_REQUEST = 10;
+
+const VerdictsSchema = z.object({
+  verdicts: z.array(
+    z.object({
+      /** 1-based number of the finding in the prompt. */
+      finding: z.number().int(),
+      verdict: z.enum(["confirm", "reject"]),
+      confidence: z.number().min(0).max(1),
+      reason: z.string(),
+    }),
+  ),
+});
+
+const VERIFY_SYSTEM_PROMPT = `You double-check findings of an automated code review against the actual code.
+For each numbered finding you get the reviewer's claim and an excerpt of the file with line numbers; lines changed in the diff are marked with ">".
+Confirm a finding only if the excerpt shows the problem it describes at the stated lines. Reject it if the code does not contain the problem, the lines do not match the claim, or the claim depends on code that is plainly not there.
+Answer for every finding with its number, "confirm" or "reject", your confidence from 0 to 1 that the finding is correct, and a one-sentence reason.`;
+
+interface Candidate {
+  index: number;
+  finding: ReviewedFinding;
+  excerpt: string;
+}
+
+const rejected = (reason: string): Verification => ({
+  status: "rejected",
+  confidence: null,
+  reason,
+});
+
+function rangesOverlap(
+  a: { startLine: number; endLine: number | null },
+  b: { startLine: number; endLine: number | null },
+): boolean {
+  const aEnd = Math.max(a.startLine, a.endLine ?? a.startLine);
+  const bEnd = Math.max(b.startLine, b.endLine ?? b.startLine);
+  return a.startLine <= bEnd && b.startLine <= aEnd;
+}
+
+function numberedExcerpt(
+  lines: string[],
+  startLine: number,
+  endLine: number,
+  changed: ChangedLines,
+  filePath: string,
+): string {
+  const from = Math.max(1, startLine - CONTEXT_LINES);
+  const to = Math.min(lines.length, endLine + CONTEXT_LINES, from + MAX_EXCERPT_LINES - 1);
+  const width = String(to).length;
+  const out: string[] = [];
+  for (let n = from; n <= to; n++) {
+    const mark = changed.overlaps(filePath, n, n) ? ">" : " ";
+    out.push(`${mark} ${String(n).padStart(width)} | ${lines[n - 1]}`);
+  }
+  return out.join("\n");
+}
+
+function verifyPrompt(candidates: Candidate[]): string {
+  return candidates
+    .map((c, i) => {
+      const f = c.finding;
+      const lines =
+        f.endLine && f.endLine !== f.startLine ? `${f.startLine}-${f.endLine}` : f.startLine;
+      return [
+        `## Finding ${i + 1}`,
+        `Severity: ${f.severity}`,
+        `Title: ${f.title}`,
+        ...(f.rationale ? [`Rationale: ${f.rationale}`] : []),
+        `Location: ${f.filePath}:${lines}`,
+        "",
+        "```",
+        c.excerpt,
+        "```",
+      ].join("\n");
+    })
+    .join("\n\n");
+}
+
+/**
+ * The git object holding the reviewed version of `filePath`, or undefined when that is
+ * the working tree. Commit and branch reviews show the range's head; staged changes show
+ * the index, except for files that also changed in the working tree in a "both" review,
+ * whose final lines are the working tree's.
+ */
+function reviewedObject(diff: GitDiffResult<PathRef>, filePath: string): string | undefined {
+  const rel = relativeToRoot(diff.repositoryRoot, resolvePath(diff.repositoryRoot, filePath));
+  if (diff.range) return `${diff.range.head}:${rel}`;
+  const has = (files: PathRef[]) =>
+    files.some((f) => relativeToRoot(diff.repositoryRoot, f) === rel);
+  if (diff.scope === "staged") return `:${rel}`;
+  if (diff.scope === "both" && has(diff.stagedFiles) && !has(diff.unstagedFiles)) {
+    return `:${rel}`;
+  }
+  return undefined;
+}
+
+/**
+ * Second pass against hallucinated findings. Each finding's file and lines must exist and
+ * overlap the diff (unless `outOfDiffFindings` is "keep"); the model then judges the
+ * findings that pass against the actual code. Rejected findings, and fixes that only
+ * address rejected findings, are marked rather than dropped so they stay viewable.
+ * Findings without lines are only checked for their file. When the model cannot be asked,
+ * findings keep no verdict and the review is returned as is.
+ * Files are read in the reviewed version (the index for staged changes, the head commit
+ * for commit and branch reviews); a host without git can only verify working-tree reviews.
+ */
+export async function verifyFindings(args: VerifyFindingsArgs): Promise<ReviewResult> {
+  const gitShow = args.host.gitShow;
+  if (!gitShow && (args.diff.range || args.diff.scope !== "unstaged")) {
+    args.output?.appendLine(
+      `[warn] Verification skipped: reading the reviewed version of ${args.diff.scope} changes needs git`,
+    );
+    return args.result;
+  }
+  const settings = args.host.getSettings();
+  const root = args.diff.repositoryRoot;
+  const changed = new ChangedLines(parseReviewDiff(args.diff), root);
+  const checkOverlap = settings.outOfDiffFindings !== "keep";
+  const verdicts = new Map<number, Verification>();
+  const candidates: Candidate[] = [];
+  const fileLines = new Map<string, Promise<string[] | undefined>>();
+  const readLines = (filePath: string) => {
+    let lines = fileLines.get(filePath);
+    if (!lines) {
+      const object = reviewedObject(args.diff, filePath);
+      const text =
+        object && gitShow
+          ? gitShow(root.fsPath, object)
+          : args.host.fs
+              .readFile(resolvePath(root, filePath))
+              .then((bytes) => new TextDecoder().decode(bytes));
+      lines = text.then(
+        (t) => t.replace(/\r?\n$/, "").split(/\r?\n/),
+        () => undefined,
+      );
+      fileLines.set(filePath, lines);
+    }
+    return lines;
+  };
+
+  for (const [index, f] of args.result.findings.entries()) {
+    // General remarks and findings from an earlier review are left alone.
+    if (!f.filePath || f.carriedOver || f.verification) continue;
+    const lines = await readLines(f.filePath);
+    if (!lines) {
+      // Deleted files are in the diff but not in the reviewed version.
+      if (!changed.hasFile(f.filePath)) verdicts.set(index, rejected("The file does not exist."));
+      continue;
+    }
+    if (f.startLine === null) {
+      if (checkOverlap && !changed.hasFile(f.filePath)) {
+        verdicts.set(index, rejected("The file is not part of the diff."));
+      }
+      continue;
+    }
+    const endLine = Math.max(f.startLine, f.endLine ?? f.startLine);
+    if (f.startLine < 1 || endLine > lines.length) {
+      verdicts.set(
+        index,
+        rejected(`Lines ${f.startLine}-${endLine} are outside the file (${lines.length} lines).`),
+      );
+      continue;
+    }
+    if (checkOverlap && !changed.overlaps(f.filePath, f.startLine, endLine)) {
+      verdicts.set(index, rejected("The lines do not overlap the diff."));
+      continue;
+    }
+    candidates.push({
+      index,
+      finding: f,
+      excerpt: numberedExcerpt(lines, f.startLine, endLine, changed, f.filePath),
+    });
+  }
+  const locationRejects = verdicts.size;
+
+  if (candidates.length > 0) {
+    const model: ModelRef = { provider: settings.provider, model: settings.model };
+    const label = `${providerLabel(model.provider)} ${model.model}`;
+    const usage: UsageTotals = { inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+    try {
+      const resolved = await resolveModel(args.host);
+      for (let start = 0; start < candidates.length; start += FINDINGS_PER_REQUEST) {
+        const chunk = candidates.slice(start, start + FINDINGS_PER_REQUEST);
+        const result = await withRetries(
+          () =>
+            generateText({
+              model: resolved.model,
+              system: VERIFY_SYSTEM_PROMPT,
+              prompt: verifyPrompt(chunk),
+              experimental_output: Output.object({ schema: VerdictsSchema }),
+              maxRetries: 0,
+              abortSignal: args.abortSignal,
+            }),
+          {
+            maxRetries: settings.maxRetries,
+            abortSignal: args.abortSignal,
+            onRetry: ({ attempt, delayMs, error }) =>
+              args.output?.appendLine(
+                `[warn] Verification with ${label}: ${describeProviderError(error)}, retry ${attempt} of ${settings.maxRetries} in ${Math.ceil(delayMs / 1000)}s`,
+              ),
+          },
+        );
+        usage.inputTokens += result.totalUsage.inputTokens ?? 0;
+        usage.outputTokens += result.totalUsage.outputTokens ?? 0;
+        usage.totalTokens +=
+          result.totalUsage.totalTokens ??
+          (result.totalUsage.inputTokens ?? 0) + (result.totalUsage.outputTokens ?? 0);
+        args.onModelUsage?.(model, { ...usage });
+
+        for (const v of result.experimental_output.verdicts) {
+          const candidate = chunk[v.finding - 1];
+          if (!candidate) continue;
+          const accepted = v.verdict === "confirm" && v.confidence >= settings.verifyMinConfidence;
+          verdicts.set(candidate.index, {
+            status: accepted ? "confirmed" : "rejected",
+            confidence: v.confidence,
+            reason: v.reason.trim() || null,
+          });
+        }
+      }
+    } catch (err) {
+      if (args.abortSignal?.aborted || (err instanceof Error && err.name === "AbortError")) {
+        throw err;
+      }
+      const error = classifyProviderError(err);
+      args.output?.appendLine(
+        `[warn] Verification with ${label} failed (${describeProviderError(error)}: ${error.message}); unchecked findings are kept`,
+      );
+    }
+  }
+
+  const findings = args.result.findings.map((f, i): ReviewedFinding => {
+    const verification = verdicts.get(i);
+    return verification ? { ...f, verification } : f;
+  });
+  const rejectedCount = findings.filter((f) => f.verification?.status === "rejected").length;
+  const checked = verdicts.size;
+  const summary = `${rejectedCount} of ${checked} finding(s) rejected (${locationRejects} by location)`;
+  args.output?.appendLine(`[info] Verification: ${summary}`);
+  args.onActivity?.(summary);
+
+  // A fix goes with the findings at its lines; it is only filtered when all of them were.
+  const fixes = args.result.fixes.map((fix): ReviewedFix => {
+    if (fix.verification) return fix;
+    const addressed = findings.filter(
+      (f) =>
+        f.filePath === fix.filePath &&
+        f.startLine !== null &&
+        rangesOverlap({ startLine: f.startLine, endLine: f.endLine }, fix),
+    );
+    if (addressed.length === 0 || addressed.some((f) => f.verification?.status !== "rejected")) {
+      return fix;
+    }
+    return { ...fix, verification: rejected("Addresses only rejected findings.") };
+  });
+
+  return { ...args.result, findings, fixes };
+}
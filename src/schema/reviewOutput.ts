@@ -1,16 +1,57 @@
 import { z } from "zod";
 
+/**
+ * One more edit of a multi-edit fix: replace lines like the fix itself does, or create or
+ * delete a file. Flat rather than a union so every provider's JSON schema support can
+ * express it; the refinement enforces the fields each kind needs.
+ */
+export const FileEditSchema = z
+  .object({
+    kind: z.enum(["replace", "create", "delete"]),
+    filePath: z.string().min(1).describe("Repository-relative file path."),
+    startLine: z.number().int().positive().nullable(),
+    endLine: z.number().int().positive().nullable(),
+    /** The new lines (replace) or the new file's content (create); null for delete. */
+    replacement: z.string().nullable(),
+    expectedOriginalSnippet: z.string().nullable(),
+  })
+  .superRefine((e, ctx) => {
+    if (e.kind === "replace") {
+      if (e.startLine === null || e.endLine === null || e.endLine < e.startLine) {
+        ctx.addIssue({ code: "custom", message: "replace edits need startLine <= endLine" });
+      }
+      if (e.replacement === null) {
+        ctx.addIssue({ code: "custom", message: "replace edits need a replacement" });
+      }
+    } else if (e.kind === "create" && e.replacement === null) {
+      ctx.addIssue({
+        code: "custom",
+        message: "create edits need the file content as replacement",
+      });
+    }
+  });
+
 export const FixSchema = z.object({
   id: z.string().min(1),
   title: z.string().min(1),
-  filePath: z.string().min(1).describe("Workspace-relative file path."),
+  filePath: z.string().min(1).describe("Repository-relative file path."),
   startLine: z.number().int().positive(),
   endLine: z.number().int().positive(),
   replacement: z.string(),
   // Use null when not provided (Responses JSON schema requires required fields).
   expectedOriginalSnippet: z.string().nullable(),
+  /** Edits elsewhere that belong to the same change; applied together with the main edit. */
+  additionalEdits: z.array(FileEditSchema),
 });
 
+export const FINDING_CATEGORIES = [
+  "security",
+  "correctness",
+  "performance",
+  "maintainability",
+  "style",
+] as const;
+
 export const FindingSchema = z.object({
   severity: z.enum(["critical", "high", "medium", "low"]),
   title: z.string().min(1),
@@ -18,6 +59,15 @@ export const FindingSchema = z.object({
   startLine: z.union([z.number().int().positive(), z.null()]),
   endLine: z.union([z.number().int().positive(), z.null()]),
   rationale: z.string().nullable(),
+  category: z.enum(FINDING_CATEGORIES).nullable(),
+  /** How sure the model is that this is a real problem, 0-1. */
+  confidence: z.number().min(0).max(1).nullable(),
+  /** Id of the `rules/` file the finding is based on, as returned by `listRules`. */
+  ruleId: z.string().nullable(),
+  /** Weakness id for security findings, e.g. "CWE-89". */
+  cwe: z.string().nullable(),
+  /** A test that would catch the problem. */
+  suggestedTest: z.string().nullable(),
 });
 
 export const ReviewOutputSchema = z.object({
@@ -28,3 +78,70 @@ export const ReviewOutputSchema = z.object({
 
 export type ReviewOutput = z.infer<typeof ReviewOutputSchema>;
 export type Fix = z.infer<typeof FixSchema>;
+export type FileEdit = z.infer<typeof FileEditSchema>;
+
+// What the extension stores and renders: the model's output plus annotations the
+// extension adds afterwards. These fields are never requested from the model.
+
+export const VerificationSchema = z.object({
+  status: z.enum(["confirmed", "rejected"]),
+  /** The verifier's confidence (0-1) that the finding is correct; null for location checks. */
+  confidence: z.number().min(0).max(1).nullable(),
+  reason: z.string().nullable(),
+});
+
+export const ReviewedFindingSchema = FindingSchema.extend({
+  // Saved reviews from before these fields existed still load.
+  category: FindingSchema.shape.category.default(null),
+  confidence: FindingSchema.shape.confidence.default(null),
+  ruleId: FindingSchema.shape.ruleId.default(null),
+  cwe: FindingSchema.shape.cwe.default(null),
+  suggestedTest: FindingSchema.shape.suggestedTest.default(null),
+  /** The finding's location does not overlap any changed line. */
+  outsideDiff: z.boolean().optional(),
+  /** Copied from the previous review because the file's diff did not change. */
+  carriedOver: z.boolean().optional(),
+  /** Ensemble review: the models that reported this finding. */
+  reportedBy: z.array(z.string()).optional(),
+  /** Outcome of the verification pass; rejected findings are hidden by default. */
+  verification: VerificationSchema.optional(),
+});
+
+export const ReviewedFixSchema = FixSchema.extend({
+  // Saved reviews from before multi-edit fixes still load.
+  additionalEdits: FixSchema.shape.additionalEdits.default([]),
+  /** The fix's line range does not overlap any changed line. */
+  outsideDiff: z.boolean().optional(),
+  /** Copied from the previous review because the file's diff did not change. */
+  carriedOver: z.boolean().optional(),
+  /** Ensemble review: the models that suggested this fix. */
+  reportedBy: z.array(z.string()).optional(),
+  /** Ensemble review: id of the fix this one competes with (another model's edit of the same lines). */
+  alternativeOf: z.string().optional(),
+  /** Rejected when every finding the fix addresses was rejected by the verification pass. */
+  verification: VerificationSchema.optional(),
+});
+
+/** A finding or fix the model returned in a shape that could not be repaired. */
+export const DroppedItemSchema = z.object({
+  kind: z.enum(["finding", "fix"]),
+  /** The item's title, or its position when it has none. */
+  summary: z.string(),
+  reason: z.string(),
+});
+
+export const ReviewResultSchema = ReviewOutputSchema.extend({
+  findings: z.array(ReviewedFindingSchema),
+  fixes: z.array(ReviewedFixSchema),
+  dropped: z.array(DroppedItemSchema).optional(),
+  /** A batch or ensemble member failed, so part of the diff was not reviewed. */
+  incomplete: z.boolean().optional(),
+});
+
+export type Finding = z.infer<typeof FindingSchema>;
+export type FindingCategory = (typeof FINDING_CATEGORIES)[number];
+export type Verification = z.infer<typeof VerificationSchema>;
+export type ReviewedFinding = z.infer<typeof ReviewedFindingSchema>;
+export type ReviewedFix = z.infer<typeof ReviewedFixSchema>;
+export type DroppedItem = z.infer<typeof DroppedItemSchema>;
+export type ReviewResult = z.infer<typeof ReviewResultSchema>;
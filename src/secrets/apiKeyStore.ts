@@ -1,18 +1,49 @@
 import * as vscode from "vscode";
-import { AIProvider } from "../config/settings";
+import { AI_PROVIDERS, getApiKeyForProvider, type AIProvider } from "../config/settings";
+
+// Plain-text settings of the providers that had one before secret storage.
+const SETTING_KEYS: Partial<Record<AIProvider, string>> = {
+  openai: "openaiApiKey",
+  anthropic: "anthropicApiKey",
+  google: "googleApiKey",
+};
 
 function secretKey(provider: AIProvider): string {
   return `vscodeCodeReview.apiKey.${provider}`;
 }
 
+/** Outcome of `ApiKeyStore.migrateFromSettings`. */
+export interface KeyMigration {
+  /** Providers whose key was moved from settings into secret storage. */
+  moved: AIProvider[];
+  /** Providers with a setting that differs from the stored key; it is left in place. */
+  conflicting: AIProvider[];
+}
+
+// One place a plain-text key can be set: user, workspace or workspace folder settings.
+interface KeySetting {
+  value: string | undefined;
+  clear(): Thenable<void>;
+}
+
 export class ApiKeyStore {
   constructor(private readonly secrets: vscode.SecretStorage) {}
 
+  /** Fires when a key is set or cleared (in this or another window). */
+  get onDidChange(): vscode.Event<vscode.SecretStorageChangeEvent> {
+    return this.secrets.onDidChange;
+  }
+
   async get(provider: AIProvider): Promise<string | undefined> {
     const value = await this.secrets.get(secretKey(provider));
     return value ?? undefined;
   }
 
+  /** The stored key, falling back to the deprecated plain-text setting. */
+  async resolve(provider: AIProvider): Promise<string | undefined> {
+    return (await this.get(provider)) ?? getApiKeyForProvider(provider);
+  }
+
   async has(provider: AIProvider): Promise<boolean> {
     return (await this.get(provider)) !== undefined;
   }
@@ -26,4 +57,57 @@ export class ApiKeyStore {
   async clear(provider: AIProvider): Promise<void> {
     await this.secrets.delete(secretKey(provider));
   }
+
+  /**
+   * Move the plain-text keys in user, workspace and workspace folder settings into secret
+   * storage. Runs on every activation, as each workspace can bring its own settings. A key
+   * that is already stored wins over the settings; a setting is only blanked (so Settings
+   * Sync stops carrying it) once its value is the stored key, so no key is lost.
+   */
+  async migrateFromSettings(): Promise<KeyMigration> {
+    const cfg = vscode.workspace.getConfiguration("vscodeCodeReview");
+    const migration: KeyMigration = { moved: [], conflicting: [] };
+    for (const provider of AI_PROVIDERS) {
+      const key = SETTING_KEYS[provider];
+      if (!key) continue;
+      const info = cfg.inspect<string>(key);
+      // Same precedence as `getConfiguration().get()`: folder over workspace over user.
+      const settings: KeySetting[] = [
+        ...(vscode.workspace.workspaceFolders ?? []).map((folder): KeySetting => {
+          const folderCfg = vscode.workspace.getConfiguration("vscodeCodeReview", folder.uri);
+          return {
+            value: folderCfg.inspect<string>(key)?.workspaceFolderValue,
+            clear: () =>
+              folderCfg.update(key, undefined, vscode.ConfigurationTarget.WorkspaceFolder),
+          };
+        }),
+        {
+          value: info?.workspaceValue,
+          clear: () => cfg.update(key, undefined, vscode.ConfigurationTarget.Workspace),
+        },
+        {
+          value: info?.globalValue,
+          clear: () => cfg.update(key, undefined, vscode.ConfigurationTarget.Global),
+        },
+      ].filter((s) => s.value !== undefined);
+      if (settings.length === 0) continue;
+
+      let stored = await this.get(provider);
+      const value = settings.map((s) => s.value?.trim()).find(Boolean);
+      if (stored === undefined && value) {
+        await this.set(provider, value);
+        stored = value;
+        migration.moved.push(provider);
+      }
+      for (const setting of settings) {
+        const v = setting.value?.trim();
+        if (!v || v === stored) {
+          await setting.clear();
+        } else if (!migration.conflicting.includes(provider)) {
+          migration.conflicting.push(provider);
+        }
+      }
+    }
+    return migration;
+  }
 }
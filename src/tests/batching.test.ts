@@ -0,0 +1,82 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { listDiffFiles } from "../git/diffSelection";
+import { mapWithConcurrency, mergeReviewResults, splitIntoBatches } from "../review/batching";
+import { diffResult, fileDiff, finding, fix, review } from "./fixtures";
+
+describe("mergeReviewResults", () => {
+  it("returns a single result unchanged", () => {
+    const only = review({ findings: [finding()] });
+    assert.equal(mergeReviewResults([only]), only);
+  });
+
+  it("keeps duplicate findings and fixes once", () => {
+    const merged = mergeReviewResults([
+      review({ findings: [finding()], fixes: [fix()] }),
+      review({ findings: [finding({ title: "  unchecked   NULL " })], fixes: [fix()] }),
+    ]);
+    assert.equal(merged.findings.length, 1);
+    assert.equal(merged.fixes.length, 1);
+  });
+
+  it("makes fix ids unique", () => {
+    const merged = mergeReviewResults([
+      review({ fixes: [fix()] }),
+      review({ fixes: [fix({ startLine: 8, endLine: 8 })] }),
+      review({ fixes: [fix({ startLine: 9, endLine: 9 })] }),
+    ]);
+    assert.deepEqual(
+      merged.fixes.map((f) => f.id),
+      ["fix-1", "fix-1-2", "fix-1-3"],
+    );
+  });
+
+  it("labels each part and collects the dropped items", () => {
+    const dropped = { kind: "finding" as const, summary: "finding #1", reason: "no title" };
+    const merged = mergeReviewResults([
+      review({ reviewMarkdown: "First" }),
+      review({ reviewMarkdown: "Second", dropped: [dropped] }),
+    ]);
+    assert.match(merged.reviewMarkdown, /^## Part 1 of 2\n\nFirst/);
+    assert.match(merged.reviewMarkdown, /## Part 2 of 2\n\nSecond$/);
+    assert.deepEqual(merged.dropped, [dropped]);
+  });
+});
+
+describe("splitIntoBatches", () => {
+  const body = (n: number) => Array.from({ length: n }, (_, i) => `+line ${i}`);
+  const diff = diffResult({
+    unstagedDiff: [
+      fileDiff("a.ts", "@@ -0,0 +1,40 @@", ...body(40), ""),
+      fileDiff("b.ts", "@@ -0,0 +1,40 @@", ...body(40), ""),
+    ].join(""),
+    totalLines: 80,
+  });
+
+  it("returns the diff itself when it fits", () => {
+    assert.deepEqual(splitIntoBatches(diff, 100_000), [diff]);
+  });
+
+  it("splits between files when it does not", () => {
+    const batches = splitIntoBatches(diff, 200);
+    assert.deepEqual(
+      batches.map((b) => listDiffFiles(b).map((f) => f.path)),
+      [["a.ts"], ["b.ts"]],
+    );
+  });
+});
+
+describe("mapWithConcurrency", () => {
+  it("keeps the input order and the concurrency limit", async () => {
+    let running = 0;
+    let peak = 0;
+    const results = await mapWithConcurrency([30, 10, 20, 0], 2, async (ms, i) => {
+      peak = Math.max(peak, ++running);
+      await new Promise((resolve) => setTimeout(resolve, ms));
+      running--;
+      return i;
+    });
+    assert.deepEqual(results, [0, 1, 2, 3]);
+    assert.equal(peak, 2);
+  });
+});
@@ -0,0 +1,81 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { capabilityWarnings, describeModel } from "../ai/modelMetadata";
+import { estimateReviewCost, formatUsd, modelPricing, usageCost } from "../review/cost";
+import { diffResult } from "./fixtures";
+
+describe("modelPricing", () => {
+  it("matches ids exactly, with dated snapshots and -latest aliases", () => {
+    assert.deepEqual(modelPricing("anthropic", "claude-sonnet-4-20250514"), {
+      input: 3,
+      output: 15,
+    });
+    assert.deepEqual(modelPricing("anthropic", "claude-3-5-sonnet-latest"), {
+      input: 3,
+      output: 15,
+    });
+    assert.deepEqual(modelPricing("openai", "gpt-4o-2024-08-06"), { input: 2.5, output: 10 });
+    assert.deepEqual(modelPricing("google", "gemini-2.0-flash-001"), { input: 0.1, output: 0.4 });
+  });
+
+  it("treats dots and dashes in versions alike", () => {
+    assert.deepEqual(modelPricing("anthropic", "claude-opus-4.5"), { input: 5, output: 25 });
+    assert.deepEqual(modelPricing("openai", "gpt-4-1-mini"), { input: 0.4, output: 1.6 });
+  });
+
+  it("prices premium variants on their own", () => {
+    assert.deepEqual(modelPricing("openai", "gpt-5-pro"), { input: 15, output: 120 });
+    assert.deepEqual(modelPricing("openai", "o3-pro-2025-06-10"), { input: 20, output: 80 });
+  });
+
+  it("has no price for unknown models rather than a related one", () => {
+    assert.equal(modelPricing("openai", "gpt-4o-audio-preview"), undefined);
+    assert.equal(modelPricing("openai", "gpt-4o-realtime-preview-2024-12-17"), undefined);
+    assert.equal(modelPricing("anthropic", "claude-haiku-4"), undefined);
+    assert.equal(modelPricing("openaiCompatible", "gpt-4o"), undefined);
+  });
+});
+
+describe("describeModel", () => {
+  it("prefers what the API reported", () => {
+    const info = describeModel("anthropic", "claude-sonnet-4-5", { contextWindow: 1_000_000 });
+    assert.equal(info.contextWindow, 1_000_000);
+    assert.deepEqual(info.pricing, { input: 3, output: 15 });
+  });
+
+  it("knows the capabilities of whole families", () => {
+    assert.deepEqual(capabilityWarnings(describeModel("openai", "text-embedding-3-small")), [
+      "no tool calling: the review cannot read files, search or load rules",
+      "no structured output: findings and fixes are parsed from free text",
+    ]);
+    assert.equal(describeModel("openai", "gpt-3.5-turbo-16k").supportsStructuredOutput, false);
+    assert.deepEqual(capabilityWarnings(describeModel("openai", "gpt-5-mini")), []);
+  });
+});
+
+describe("usageCost", () => {
+  it("prices input and output tokens per million", () => {
+    const pricing = { input: 3, output: 15 };
+    assert.equal(usageCost(pricing, { inputTokens: 1_000_000, outputTokens: 100_000 }), 4.5);
+    assert.equal(usageCost(pricing, {}), 0);
+  });
+});
+
+describe("estimateReviewCost", () => {
+  it("counts the prompt once per batch", () => {
+    const diff = diffResult({ unstagedDiff: "x".repeat(40_000) });
+    const one = estimateReviewCost({ input: 1, output: 1 }, diff, "", 100_000);
+    const two = estimateReviewCost({ input: 1, output: 1 }, diff, "", 5_000);
+    // 40k characters are 10k tokens; the second batch adds one more request's overhead.
+    assert.equal(two.inputTokens - one.inputTokens, one.inputTokens - 10_000);
+    assert.equal(two.outputTokens, 2 * one.outputTokens);
+  });
+});
+
+describe("formatUsd", () => {
+  it("shows cents, or more digits for small amounts", () => {
+    assert.equal(formatUsd(1.234), "$1.23");
+    assert.equal(formatUsd(0.00123), "$0.0012");
+    assert.equal(formatUsd(0), "$0.00");
+  });
+});
@@ -0,0 +1,114 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  changedLineMap,
+  countChangedLines,
+  formatLineRanges,
+  parseUnifiedDiff,
+} from "../git/diffParser";
+import { fileDiff } from "./fixtures";
+
+const MODIFIED = fileDiff(
+  "src/a.ts",
+  "@@ -1,4 +1,5 @@ function a() {",
+  " const x = get();",
+  "-use(x);",
+  "+if (x) use(x);",
+  "+log(x);",
+  " done();",
+  " return;",
+  "",
+);
+
+describe("parseUnifiedDiff", () => {
+  it("numbers the lines of a modified file", () => {
+    const [file] = parseUnifiedDiff(MODIFIED);
+    assert.equal(file.path, "src/a.ts");
+    assert.equal(file.change, "modified");
+    assert.equal(file.hunks.length, 1);
+    const hunk = file.hunks[0];
+    assert.deepEqual([hunk.oldStart, hunk.oldLines, hunk.newStart, hunk.newLines], [1, 4, 1, 5]);
+    assert.deepEqual(
+      hunk.lines.map((l) => [l.kind, l.oldLine, l.newLine]),
+      [
+        ["context", 1, 1],
+        ["del", 2, null],
+        ["add", null, 2],
+        ["add", null, 3],
+        ["context", 3, 4],
+        ["context", 4, 5],
+      ],
+    );
+    assert.equal(hunk.raw[0], "@@ -1,4 +1,5 @@ function a() {");
+  });
+
+  it("recognizes added, deleted and renamed files", () => {
+    const diff = [
+      "diff --git a/new.ts b/new.ts",
+      "new file mode 100644",
+      "--- /dev/null",
+      "+++ b/new.ts",
+      "@@ -0,0 +1 @@",
+      "+export {};",
+      "diff --git a/old.ts b/old.ts",
+      "deleted file mode 100644",
+      "--- a/old.ts",
+      "+++ /dev/null",
+      "@@ -1 +0,0 @@",
+      "-export {};",
+      "diff --git a/before.ts b/after.ts",
+      "similarity index 100%",
+      "rename from before.ts",
+      "rename to after.ts",
+      "",
+    ].join("\n");
+    const files = parseUnifiedDiff(diff);
+    assert.deepEqual(
+      files.map((f) => [f.change, f.oldPath, f.newPath, f.path]),
+      [
+        ["added", null, "new.ts", "new.ts"],
+        ["deleted", "old.ts", null, "old.ts"],
+        ["renamed", "before.ts", "after.ts", "after.ts"],
+      ],
+    );
+  });
+
+  it("unquotes paths with special characters", () => {
+    const diff = [
+      'diff --git "a/with space.ts" "b/with space.ts"',
+      '--- "a/with space.ts"',
+      '+++ "b/with space.ts"',
+      "@@ -1 +1 @@",
+      "-a",
+      "+b",
+      "",
+    ].join("\n");
+    assert.equal(parseUnifiedDiff(diff)[0].path, "with space.ts");
+  });
+
+  it("returns nothing for an empty diff", () => {
+    assert.deepEqual(parseUnifiedDiff(""), []);
+  });
+});
+
+describe("changedLineMap", () => {
+  it("maps added lines, and pure deletions to the line after them", () => {
+    const deletion = fileDiff("src/b.ts", "@@ -3,3 +3,2 @@", " keep", "-gone", " keep", "");
+    const map = changedLineMap(parseUnifiedDiff(`${MODIFIED}${deletion}`));
+    assert.deepEqual(map.get("src/a.ts"), new Set([2, 3]));
+    assert.deepEqual(map.get("src/b.ts"), new Set([4]));
+  });
+});
+
+describe("formatLineRanges", () => {
+  it("collapses consecutive lines into ranges", () => {
+    assert.equal(formatLineRanges([7, 1, 3, 2]), "1-3, 7");
+    assert.equal(formatLineRanges([]), "");
+  });
+});
+
+describe("countChangedLines", () => {
+  it("counts added and removed lines", () => {
+    assert.deepEqual(countChangedLines(parseUnifiedDiff(MODIFIED)), { added: 2, removed: 1 });
+  });
+});
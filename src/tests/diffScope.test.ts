@@ -0,0 +1,150 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { parseUnifiedDiff } from "../git/diffParser";
+import { ChangedLines, dropFixesOutsideRoot, scopeToDiff } from "../review/diffScope";
+import { finding, fix, fileDiff, review, ROOT } from "./fixtures";
+
+// src/a.ts changes lines 2-3; src/gone.ts is deleted.
+const changed = new ChangedLines(
+  parseUnifiedDiff(
+    [
+      fileDiff("src/a.ts", "@@ -1,3 +1,4 @@", " keep", "-old", "+new", "+more", " keep", ""),
+      "diff --git a/src/gone.ts b/src/gone.ts\n",
+      "deleted file mode 100644\n--- a/src/gone.ts\n+++ /dev/null\n@@ -1 +0,0 @@\n-x\n",
+    ].join(""),
+  ),
+  ROOT,
+);
+
+describe("ChangedLines", () => {
+  it("tells changed from unchanged lines", () => {
+    assert.equal(changed.overlaps("src/a.ts", 3, 3), true);
+    assert.equal(changed.overlaps("src/a.ts", 4, 1), true);
+    assert.equal(changed.overlaps("src/a.ts", 4, 4), false);
+    assert.equal(changed.overlaps("src/other.ts", 2, 2), false);
+  });
+
+  it("accepts absolute and ./ paths", () => {
+    assert.equal(changed.overlaps("/repo/src/a.ts", 2, 2), true);
+    assert.equal(changed.hasFile("./src/a.ts"), true);
+  });
+
+  it("counts deleted files as changed everywhere", () => {
+    assert.equal(changed.overlaps("src/gone.ts", 100, 100), true);
+    assert.equal(changed.hasFile("src/gone.ts"), true);
+  });
+});
+
+describe("scopeToDiff", () => {
+  const output = review({
+    findings: [
+      finding({ title: "inside" }),
+      finding({ title: "outside", startLine: 9, endLine: 9 }),
+      finding({ title: "whole file", startLine: null, endLine: null }),
+      finding({ title: "general", filePath: null, startLine: null, endLine: null }),
+    ],
+    fixes: [fix({ id: "in" }), fix({ id: "out", startLine: 9, endLine: 9 })],
+  });
+
+  it("flags findings and fixes outside the changed lines", () => {
+    const scoped = scopeToDiff(output, changed, "flag");
+    assert.deepEqual(
+      scoped.findings.map((f) => [f.title, f.outsideDiff ?? false]),
+      [
+        ["inside", false],
+        ["outside", true],
+        ["whole file", false],
+        ["general", false],
+      ],
+    );
+    assert.deepEqual(
+      scoped.fixes.map((f) => [f.id, f.outsideDiff ?? false]),
+      [
+        ["in", false],
+        ["out", true],
+      ],
+    );
+  });
+
+  it("drops them with the drop policy and leaves the output alone with keep", () => {
+    const dropped = scopeToDiff(output, changed, "drop");
+    assert.deepEqual(
+      dropped.findings.map((f) => f.title),
+      ["inside", "whole file", "general"],
+    );
+    assert.deepEqual(
+      dropped.fixes.map((f) => f.id),
+      ["in"],
+    );
+    assert.equal(scopeToDiff(output, changed, "keep"), output);
+  });
+
+  it("judges a multi-edit fix by its main edit and the files of the others", () => {
+    const edit = {
+      kind: "replace" as const,
+      filePath: "src/a.ts",
+      startLine: 40,
+      endLine: 40,
+      replacement: "renamed();",
+      expectedOriginalSnippet: "old();",
+    };
+    const create = { ...edit, kind: "create" as const, filePath: "src/new.ts" };
+    const elsewhere = { ...edit, filePath: "src/other.ts" };
+    const scoped = scopeToDiff(
+      review({
+        fixes: [
+          fix({ id: "same file", additionalEdits: [edit, create] }),
+          fix({ id: "other file", additionalEdits: [elsewhere] }),
+        ],
+      }),
+      changed,
+      "flag",
+    );
+    assert.deepEqual(
+      scoped.fixes.map((f) => [f.id, f.outsideDiff ?? false]),
+      [
+        ["same file", false],
+        ["other file", true],
+      ],
+    );
+  });
+});
+
+describe("dropFixesOutsideRoot", () => {
+  it("drops fixes with an edit outside the repository", () => {
+    const output = review({
+      fixes: [
+        fix({ id: "ok" }),
+        fix({ id: "up", title: "Up", filePath: "../etc/passwd" }),
+        fix({
+          id: "nested",
+          title: "Nested",
+          additionalEdits: [
+            {
+              kind: "delete",
+              filePath: "/etc/hosts",
+              startLine: null,
+              endLine: null,
+              replacement: null,
+              expectedOriginalSnippet: null,
+            },
+          ],
+        }),
+      ],
+    });
+    const result = dropFixesOutsideRoot(output, ROOT);
+    assert.deepEqual(
+      result.fixes.map((f) => f.id),
+      ["ok"],
+    );
+    assert.deepEqual(
+      result.dropped?.map((d) => d.reason),
+      ["../etc/passwd is outside the repository", "/etc/hosts is outside the repository"],
+    );
+  });
+
+  it("returns the output unchanged when every path is inside", () => {
+    const output = review({ fixes: [fix()] });
+    assert.equal(dropFixesOutsideRoot(output, ROOT), output);
+  });
+});
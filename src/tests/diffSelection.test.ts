@@ -0,0 +1,82 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { applySelection, listDiffFiles, splitDiff } from "../git/diffSelection";
+import { diffResult, fileDiff } from "./fixtures";
+
+const A = fileDiff("src/a.ts", "@@ -1 +1 @@", "-one", "+ONE", "@@ -10 +10 @@", "-ten", "+TEN", "");
+const B = fileDiff("src/b.ts", "@@ -5 +5,2 @@", " five", "+six", "");
+
+describe("splitDiff", () => {
+  it("splits a diff into files and hunks with their raw lines", () => {
+    const files = splitDiff(`${A}${B}`, "unstaged");
+    assert.deepEqual(
+      files.map((f) => [f.key, f.path, f.hunks.length]),
+      [
+        ["unstaged:src/a.ts", "src/a.ts", 2],
+        ["unstaged:src/b.ts", "src/b.ts", 1],
+      ],
+    );
+    assert.deepEqual(files[0].hunks[1].lines, ["@@ -10 +10 @@", "-ten", "+TEN"]);
+    assert.deepEqual([files[1].hunks[0].added, files[1].hunks[0].removed], [1, 0]);
+  });
+
+  it("gives every hunk a distinct key", () => {
+    const keys = splitDiff(`${A}${B}`, "unstaged").flatMap((f) => f.hunks.map((h) => h.key));
+    assert.equal(new Set(keys).size, keys.length);
+  });
+
+  it("keeps hunks with the same body apart", () => {
+    const repeated = fileDiff("a.ts", "@@ -3 +3 @@", "-x", "+y", "@@ -9 +9 @@", "-x", "+y", "");
+    const other = fileDiff("b.ts", "@@ -3 +3 @@", "-x", "+y", "");
+    const [a, b] = splitDiff(`${repeated}${other}`, "unstaged");
+    assert.deepEqual(
+      [...a.hunks, ...b.hunks].map((h) => h.key.replace(/:[0-9a-f]{12}$/, "")),
+      [
+        "unstaged:a.ts:@@ -3,1 +3,1 @@",
+        "unstaged:a.ts:@@ -9,1 +9,1 @@",
+        "unstaged:b.ts:@@ -3,1 +3,1 @@",
+      ],
+    );
+    const selected = applySelection(
+      diffResult({ unstagedDiff: repeated }),
+      new Set([a.hunks[1].key]),
+    );
+    assert.deepEqual(
+      splitDiff(selected.unstagedDiff, "unstaged")[0].hunks.map((h) => h.header),
+      ["@@ -9 +9 @@"],
+    );
+  });
+});
+
+describe("applySelection", () => {
+  const diff = diffResult({
+    unstagedDiff: `${A}${B}`,
+    unstagedFiles: [{ fsPath: "/repo/src/a.ts" }, { fsPath: "/repo/src/b.ts" }],
+    totalLines: 5,
+  });
+
+  it("keeps whole files and single hunks", () => {
+    const [a, b] = listDiffFiles(diff);
+    const selected = applySelection(diff, new Set([a.hunks[1].key, b.key]));
+    assert.deepEqual(
+      splitDiff(selected.unstagedDiff, "unstaged").map((f) => [f.path, f.hunks.length]),
+      [
+        ["src/a.ts", 1],
+        ["src/b.ts", 1],
+      ],
+    );
+    assert.match(selected.unstagedDiff, /\+TEN/);
+    assert.doesNotMatch(selected.unstagedDiff, /\+ONE/);
+    assert.equal(selected.totalLines, 3);
+  });
+
+  it("drops files with nothing selected from the diff and the file list", () => {
+    const [, b] = listDiffFiles(diff);
+    const selected = applySelection(diff, new Set([b.key]));
+    assert.deepEqual(
+      selected.unstagedFiles.map((u) => u.fsPath),
+      ["/repo/src/b.ts"],
+    );
+    assert.equal(selected.totalLines, 1);
+  });
+});
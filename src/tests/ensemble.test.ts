@@ -0,0 +1,65 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { mergeEnsembleResults } from "../review/ensemble";
+import { finding, fix, review } from "./fixtures";
+
+describe("mergeEnsembleResults", () => {
+  it("merges findings the models agree on and puts them first", () => {
+    const merged = mergeEnsembleResults([
+      {
+        label: "A",
+        result: review({
+          findings: [
+            finding({ title: "Typo in message", filePath: "src/b.ts", severity: "low" }),
+            finding({ title: "Possible null dereference", severity: "medium", confidence: 0.5 }),
+          ],
+        }),
+      },
+      {
+        label: "B",
+        result: review({
+          findings: [
+            finding({
+              title: "Null dereference of x",
+              startLine: 3,
+              endLine: 3,
+              severity: "high",
+              confidence: 0.8,
+            }),
+          ],
+        }),
+      },
+    ]);
+    assert.deepEqual(
+      merged.findings.map((f) => [f.title, f.severity, f.confidence, f.reportedBy]),
+      [
+        ["Possible null dereference", "high", 0.8, ["A", "B"]],
+        ["Typo in message", "low", null, ["A"]],
+      ],
+    );
+    assert.match(merged.reviewMarkdown, /1 of 2 finding\(s\) reported by more than one model/);
+  });
+
+  it("keeps identical fixes once and competing fixes as alternatives", () => {
+    const merged = mergeEnsembleResults([
+      { label: "A", result: review({ fixes: [fix()] }) },
+      { label: "B", result: review({ fixes: [fix({ replacement: "if (x) use(x);  " })] }) },
+      { label: "C", result: review({ fixes: [fix({ replacement: "use(x!);" })] }) },
+    ]);
+    assert.deepEqual(
+      merged.fixes.map((f) => [f.id, f.reportedBy, f.alternativeOf]),
+      [
+        ["fix-1", ["A", "B"], undefined],
+        ["fix-1-2", ["C"], "fix-1"],
+      ],
+    );
+  });
+
+  it("is incomplete when a member's review was", () => {
+    const merged = mergeEnsembleResults([
+      { label: "A", result: review() },
+      { label: "B", result: review({ incomplete: true }) },
+    ]);
+    assert.equal(merged.incomplete, true);
+  });
+});
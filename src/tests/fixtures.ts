@@ -0,0 +1,71 @@
+import type { PathRef } from "../context/paths";
+import type { GitDiffResult } from "../git/gitDiff";
+import type { ReviewedFinding, ReviewedFix, ReviewResult } from "../schema/reviewOutput";
+
+export const ROOT: PathRef = { fsPath: "/repo" };
+
+export function finding(overrides: Partial<ReviewedFinding> = {}): ReviewedFinding {
+  return {
+    severity: "medium",
+    title: "Unchecked null",
+    filePath: "src/a.ts",
+    startLine: 2,
+    endLine: 2,
+    rationale: null,
+    category: null,
+    confidence: null,
+    ruleId: null,
+    cwe: null,
+    suggestedTest: null,
+    ...overrides,
+  };
+}
+
+export function fix(overrides: Partial<ReviewedFix> = {}): ReviewedFix {
+  return {
+    id: "fix-1",
+    title: "Check for null",
+    filePath: "src/a.ts",
+    startLine: 2,
+    endLine: 2,
+    replacement: "if (x) use(x);",
+    expectedOriginalSnippet: "use(x);",
+    additionalEdits: [],
+    ...overrides,
+  };
+}
+
+export function review(overrides: Partial<ReviewResult> = {}): ReviewResult {
+  return { reviewMarkdown: "Looks fine.", findings: [], fixes: [], ...overrides };
+}
+
+/** An unstaged review of `unstagedDiff`, with the file list and line count left to the test. */
+export function diffResult(
+  overrides: Partial<GitDiffResult<PathRef>> = {},
+): GitDiffResult<PathRef> {
+  return {
+    repositoryRoot: ROOT,
+    scope: "unstaged",
+    unstagedDiff: "",
+    stagedDiff: "",
+    untrackedDiff: "",
+    committedDiff: "",
+    stagedFiles: [],
+    unstagedFiles: [],
+    untrackedFiles: [],
+    committedFiles: [],
+    totalLines: 0,
+    ...overrides,
+  };
+}
+
+/** A `git diff` section of `path` with one hunk per entry of `hunks`. */
+export function fileDiff(path: string, ...hunks: string[]): string {
+  return [
+    `diff --git a/${path} b/${path}`,
+    "index 1111111..2222222 100644",
+    `--- a/${path}`,
+    `+++ b/${path}`,
+    ...hunks,
+  ].join("\n");
+}
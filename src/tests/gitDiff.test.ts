@@ -0,0 +1,43 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { parseUnifiedDiff } from "../git/diffParser";
+import { countLines, newFileDiff, replaceFileDiff } from "../git/gitDiff";
+import { fileDiff } from "./fixtures";
+
+describe("newFileDiff", () => {
+  it("adds every line of the file", () => {
+    const [file] = parseUnifiedDiff(newFileDiff("src/new.ts", "a\nb\n"));
+    assert.equal(file.change, "added");
+    assert.deepEqual(
+      file.hunks[0].lines.map((l) => [l.kind, l.content]),
+      [
+        ["add", "a"],
+        ["add", "b"],
+      ],
+    );
+  });
+
+  it("marks a missing final newline", () => {
+    assert.match(
+      newFileDiff("a.txt", "no newline"),
+      /\+no newline\n\\ No newline at end of file\n$/,
+    );
+  });
+});
+
+describe("replaceFileDiff", () => {
+  const a = fileDiff("a.ts", "@@ -1 +1 @@", "-a", "+A", "");
+  const b = fileDiff("b.ts", "@@ -1 +1 @@", "-b", "+B", "");
+  const newB = fileDiff("b.ts", "@@ -1 +1,2 @@", "-b", "+B", "+C", "");
+
+  it("replaces the section of a file", () => {
+    assert.equal(replaceFileDiff(`${a}${b}`, "b.ts", newB), `${a}${newB}`);
+    assert.equal(countLines(replaceFileDiff(`${a}${b}`, "b.ts", newB)), 5);
+  });
+
+  it("removes a section, or appends one for a new file", () => {
+    assert.equal(replaceFileDiff(`${a}${b}`, "a.ts", ""), b);
+    assert.equal(replaceFileDiff(a, "b.ts", b), `${a}${b}`);
+    assert.equal(replaceFileDiff(a, "b.ts", ""), a);
+  });
+});
@@ -0,0 +1,112 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { extractJson, reviewOutputErrors, salvageReviewOutput } from "../review/outputRepair";
+import { finding, fix } from "./fixtures";
+
+describe("extractJson", () => {
+  it("finds the object in a code fence or in prose", () => {
+    assert.deepEqual(extractJson('{"a":1}'), { a: 1 });
+    assert.deepEqual(extractJson('Here it is:\n```json\n{"a":1}\n```\nDone.'), { a: 1 });
+    assert.deepEqual(extractJson('Sure! {"a":{"b":2}} Hope that helps.'), { a: { b: 2 } });
+  });
+
+  it("returns undefined without an object", () => {
+    assert.equal(extractJson("No findings."), undefined);
+    assert.equal(extractJson("{ broken"), undefined);
+  });
+});
+
+describe("reviewOutputErrors", () => {
+  it("accepts valid output", () => {
+    const valid = { reviewMarkdown: "ok", findings: [finding()], fixes: [fix()] };
+    assert.equal(reviewOutputErrors(JSON.stringify(valid)), undefined);
+  });
+
+  it("reports syntax and schema errors", () => {
+    assert.match(reviewOutputErrors("{")!, /^The text is not valid JSON/);
+    assert.match(reviewOutputErrors('{"reviewMarkdown":"ok","findings":[]}')!, /fixes/);
+  });
+});
+
+describe("salvageReviewOutput", () => {
+  it("completes and normalizes what the model got almost right", () => {
+    const { output, dropped } = salvageReviewOutput({
+      reviewMarkdown: "ok",
+      findings: [
+        {
+          severity: " HIGH ",
+          title: "SQL injection",
+          filePath: "src/db.ts",
+          startLine: "12",
+          category: "Security",
+          confidence: 90,
+          cwe: "cwe 89",
+        },
+      ],
+      fixes: [
+        {
+          title: "Use a parameter",
+          filePath: "src/db.ts",
+          startLine: 12,
+          endLine: "12",
+          replacement: "q(?)",
+        },
+      ],
+    });
+    assert.deepEqual(dropped, []);
+    assert.deepEqual(output.findings[0], {
+      severity: "high",
+      title: "SQL injection",
+      filePath: "src/db.ts",
+      startLine: 12,
+      endLine: null,
+      rationale: null,
+      category: "security",
+      confidence: 0.9,
+      ruleId: null,
+      cwe: "CWE-89",
+      suggestedTest: null,
+    });
+    assert.equal(output.fixes[0].id, "fix-1");
+    assert.equal(output.fixes[0].endLine, 12);
+    assert.deepEqual(output.fixes[0].additionalEdits, []);
+  });
+
+  it("clears unusable annotations instead of dropping the finding", () => {
+    const { output } = salvageReviewOutput({
+      findings: [{ severity: "low", title: "Nit", category: "vibes", confidence: 250, cwe: "n/a" }],
+    });
+    assert.deepEqual(
+      [output.findings[0].category, output.findings[0].confidence, output.findings[0].cwe],
+      [null, null, null],
+    );
+  });
+
+  it("drops invalid items with the reason", () => {
+    const { output, dropped } = salvageReviewOutput({
+      findings: [{ severity: "urgent", title: "Odd" }, "not an object"],
+      fixes: [
+        {
+          title: "Half a fix",
+          filePath: "a.ts",
+          startLine: 1,
+          endLine: 1,
+          replacement: "x",
+          additionalEdits: [{ kind: "replace", filePath: "b.ts" }],
+        },
+      ],
+    });
+    assert.deepEqual(output.findings, []);
+    assert.deepEqual(output.fixes, []);
+    assert.deepEqual(
+      dropped.map((d) => [d.kind, d.summary]),
+      [
+        ["finding", "Odd"],
+        ["finding", "finding #2"],
+        ["fix", "Half a fix"],
+      ],
+    );
+    assert.match(dropped[0].reason, /^severity: /);
+    assert.equal(dropped[1].reason, "not an object");
+  });
+});
@@ -0,0 +1,133 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { APICallError } from "ai";
+import { classifyProviderError, describeProviderError } from "../ai/providerErrors";
+import { withRetries } from "../ai/retry";
+
+function apiError(
+  statusCode: number | undefined,
+  opts: { body?: string; headers?: Record<string, string> } = {},
+): APICallError {
+  return new APICallError({
+    message: `status ${statusCode}`,
+    url: "https://api.example.com/v1/messages",
+    requestBodyValues: {},
+    statusCode,
+    responseBody: opts.body,
+    responseHeaders: opts.headers,
+    isRetryable: statusCode === undefined,
+  });
+}
+
+describe("classifyProviderError", () => {
+  it("tells the kinds of provider failures apart", () => {
+    const kinds = [
+      apiError(429),
+      apiError(429, { body: '{"error":{"type":"insufficient_quota"}}' }),
+      apiError(529),
+      apiError(503),
+      apiError(401),
+      apiError(400, { body: "prompt is too long: 250000 tokens > 200000 maximum" }),
+      apiError(400),
+      Object.assign(new Error("connect failed"), { code: "ECONNREFUSED" }),
+      new Error("fetch failed"),
+      new Error("something else"),
+    ].map((e) => {
+      const c = classifyProviderError(e);
+      return [c.kind, c.retryable];
+    });
+    assert.deepEqual(kinds, [
+      ["rateLimit", true],
+      ["rateLimit", false],
+      ["overloaded", true],
+      ["overloaded", true],
+      ["auth", false],
+      ["contextLength", false],
+      ["other", false],
+      ["network", true],
+      ["network", true],
+      ["other", false],
+    ]);
+  });
+
+  it("reads retry-after headers", () => {
+    assert.equal(
+      classifyProviderError(apiError(429, { headers: { "Retry-After": "2" } })).retryAfterMs,
+      2000,
+    );
+    assert.equal(
+      classifyProviderError(apiError(429, { headers: { "retry-after-ms": "150" } })).retryAfterMs,
+      150,
+    );
+  });
+
+  it("describes errors briefly", () => {
+    assert.equal(describeProviderError(classifyProviderError(apiError(429))), "rate limited (429)");
+  });
+});
+
+describe("withRetries", () => {
+  // No real waiting: the provider asks for a zero delay.
+  const transient = () => apiError(503, { headers: { "retry-after-ms": "0" } });
+
+  it("retries transient errors until the task succeeds", async () => {
+    let calls = 0;
+    const attempts: number[] = [];
+    const result = await withRetries(
+      async () => {
+        if (++calls < 3) throw transient();
+        return "ok";
+      },
+      { maxRetries: 2, onRetry: ({ attempt }) => attempts.push(attempt) },
+    );
+    assert.equal(result, "ok");
+    assert.deepEqual(attempts, [1, 2]);
+  });
+
+  it("throws the last error once the retries are used up", async () => {
+    let calls = 0;
+    await assert.rejects(
+      withRetries(
+        async () => {
+          calls++;
+          throw transient();
+        },
+        { maxRetries: 1 },
+      ),
+      (err) => APICallError.isInstance(err) && err.statusCode === 503,
+    );
+    assert.equal(calls, 2);
+  });
+
+  it("does not retry permanent errors or long retry-after waits", async () => {
+    for (const error of [apiError(401), apiError(429, { headers: { "retry-after": "3600" } })]) {
+      let calls = 0;
+      await assert.rejects(
+        withRetries(
+          async () => {
+            calls++;
+            throw error;
+          },
+          { maxRetries: 3 },
+        ),
+      );
+      assert.equal(calls, 1);
+    }
+  });
+
+  it("stops when aborted", async () => {
+    const controller = new AbortController();
+    let calls = 0;
+    await assert.rejects(
+      withRetries(
+        async () => {
+          calls++;
+          controller.abort();
+          throw transient();
+        },
+        { maxRetries: 3, abortSignal: controller.signal },
+      ),
+    );
+    assert.equal(calls, 1);
+  });
+});
@@ -1,25 +1,45 @@
 import * as vscode from "vscode";
 import { marked } from "marked";
-import { ReviewOutputSchema, type ReviewOutput } from "../schema/reviewOutput";
+import { ReviewResultSchema, type ReviewResult } from "../schema/reviewOutput";
 import { applyFix } from "../apply/applyFix";
+import type { FixPreview } from "../apply/fixPreview";
+import { resolveUnderRoot } from "../context/workspaceRoot";
 import { createNonce } from "./webviewShared";
-import { getReviewPanelHtml } from "./reviewPanelHtml";
+import type { PartialReview } from "../review/reviewRunner";
+import { getReviewPanelHtml, renderFindingsHtml } from "./reviewPanelHtml";
 
 type PanelToExtensionMessage =
   | { type: "applyFix"; fixId: string }
+  | { type: "previewFix"; fixId: string }
   | { type: "openFile"; filePath: string; line?: number };
 
+export interface ReviewPanelOptions {
+  /** Repository the review ran against; output paths are relative to it. */
+  rootUri: vscode.Uri;
+  title?: string;
+}
+
+// Streamed updates re-render the markdown; coalesce them to a few per second.
+const PARTIAL_UPDATE_MS = 250;
+
 export class ReviewPanel {
   private static readonly viewType = "vscodeCodeReview.reviewResult";
-  private static current: ReviewPanel | undefined;
+  // One panel per repository, so reviewing several repos side by side keeps each result.
+  private static readonly panels = new Map<string, ReviewPanel>();
+  private static fixPreview: FixPreview | undefined;
 
   private readonly panel: vscode.WebviewPanel;
   private readonly disposables: vscode.Disposable[] = [];
-  private lastOutput: ReviewOutput | undefined;
+  private lastOutput: ReviewResult | undefined;
+  private pendingPartial: PartialReview | undefined;
+  private partialTimer: ReturnType<typeof setTimeout> | undefined;
+  /** Bumped by every full update, so a partial rendered meanwhile is not posted over it. */
+  private generation = 0;
 
   private constructor(
     panel: vscode.WebviewPanel,
     private readonly extensionUri: vscode.Uri,
+    private readonly rootUri: vscode.Uri,
   ) {
     this.panel = panel;
     this.panel.onDidDispose(() => this.dispose(), null, this.disposables);
@@ -30,8 +50,12 @@ export class ReviewPanel {
           if (!this.lastOutput) return;
           await this.handleApplyFix(message.fixId);
           break;
+        case "previewFix":
+          if (!this.lastOutput) return;
+          await this.handlePreviewFix(message.fixId);
+          break;
         case "openFile": {
-          const uri = vscode.Uri.file(message.filePath);
+          const uri = resolveUnderRoot(this.rootUri, message.filePath);
           const doc = await vscode.workspace.openTextDocument(uri);
           const editor = await vscode.window.showTextDocument(doc, { preview: false });
           if (typeof message.line === "number" && message.line > 0) {
@@ -45,29 +69,118 @@ export class ReviewPanel {
     });
   }
 
-  static createOrShow(extensionUri: vscode.Uri, output: ReviewOutput): ReviewPanel {
-    const column = vscode.window.activeTextEditor?.viewColumn ?? vscode.ViewColumn.One;
+  /** Where the panels' Preview buttons open fixes; registered once on activation. */
+  static useFixPreview(preview: FixPreview): void {
+    ReviewPanel.fixPreview = preview;
+  }
+
+  static createOrShow(
+    extensionUri: vscode.Uri,
+    output: ReviewResult,
+    opts: ReviewPanelOptions,
+  ): ReviewPanel {
+    const parsed = ReviewResultSchema.parse(output);
+    const panel = ReviewPanel.open(extensionUri, opts);
+    void panel.update(parsed);
+    return panel;
+  }
+
+  /**
+   * Open (or reveal) the repository's panel before the review has a result; partial
+   * results are streamed into it with `streamIfOpen` until `createOrShow` replaces them.
+   */
+  static showPending(extensionUri: vscode.Uri, opts: ReviewPanelOptions): ReviewPanel {
+    const panel = ReviewPanel.open(extensionUri, opts);
+    panel.showStreaming();
+    return panel;
+  }
 
-    const parsed = ReviewOutputSchema.parse(output);
+  private static open(extensionUri: vscode.Uri, opts: ReviewPanelOptions): ReviewPanel {
+    const column = vscode.window.activeTextEditor?.viewColumn ?? vscode.ViewColumn.One;
+    const title = opts.title ?? "Code Review";
+    const key = opts.rootUri.toString();
 
-    if (ReviewPanel.current) {
-      ReviewPanel.current.panel.reveal(column);
-      void ReviewPanel.current.update(parsed);
-      return ReviewPanel.current;
+    const existing = ReviewPanel.panels.get(key);
+    if (existing) {
+      existing.panel.title = title;
+      existing.panel.reveal(column);
+      return existing;
     }
 
-    const panel = vscode.window.createWebviewPanel(ReviewPanel.viewType, "Code Review", column, {
+    const panel = vscode.window.createWebviewPanel(ReviewPanel.viewType, title, column, {
       enableScripts: true,
       retainContextWhenHidden: true,
       localResourceRoots: [extensionUri],
     });
 
-    ReviewPanel.current = new ReviewPanel(panel, extensionUri);
-    void ReviewPanel.current.update(parsed);
-    return ReviewPanel.current;
+    const created = new ReviewPanel(panel, extensionUri, opts.rootUri);
+    ReviewPanel.panels.set(key, created);
+    return created;
+  }
+
+  /** Show a partial review in the repository's panel if one is open. */
+  static streamIfOpen(partial: PartialReview, rootUri: vscode.Uri): void {
+    ReviewPanel.panels.get(rootUri.toString())?.streamPartial(partial);
+  }
+
+  /** Stop streaming into the repository's panel because the review did not finish. */
+  static streamFailed(rootUri: vscode.Uri, message: string): void {
+    const existing = ReviewPanel.panels.get(rootUri.toString());
+    if (!existing || existing.lastOutput) return;
+    existing.cancelPartial();
+    void existing.panel.webview.postMessage({ type: "streamFailed", message });
+  }
+
+  /** Refresh the repository's panel if one is open, without revealing it. */
+  static updateIfOpen(output: ReviewResult, rootUri: vscode.Uri): boolean {
+    const existing = ReviewPanel.panels.get(rootUri.toString());
+    if (!existing) return false;
+    void existing.update(ReviewResultSchema.parse(output));
+    return true;
+  }
+
+  private showStreaming(): void {
+    this.cancelPartial();
+    this.discardPreview();
+    this.lastOutput = undefined;
+    this.panel.webview.html = getReviewPanelHtml({
+      nonce: createNonce(),
+      reviewHtml: "",
+      output: { reviewMarkdown: "", findings: [], fixes: [] },
+      streaming: true,
+    });
+  }
+
+  private streamPartial(partial: PartialReview): void {
+    this.pendingPartial = partial;
+    this.partialTimer ??= setTimeout(() => void this.flushPartial(), PARTIAL_UPDATE_MS);
+  }
+
+  private async flushPartial(): Promise<void> {
+    this.partialTimer = undefined;
+    const partial = this.pendingPartial;
+    this.pendingPartial = undefined;
+    if (!partial) return;
+    const generation = this.generation;
+    const reviewHtml = await marked(partial.reviewMarkdown);
+    if (generation !== this.generation) return;
+    void this.panel.webview.postMessage({
+      type: "partial",
+      reviewHtml,
+      findingsHtml: renderFindingsHtml(partial.findings),
+    });
+  }
+
+  private cancelPartial(): void {
+    this.generation++;
+    this.pendingPartial = undefined;
+    if (this.partialTimer) clearTimeout(this.partialTimer);
+    this.partialTimer = undefined;
   }
 
-  private async update(output: ReviewOutput): Promise<void> {
+  private async update(output: ReviewResult): Promise<void> {
+    this.cancelPartial();
+    this.discardPreview();
     this.lastOutput = output;
     const nonce = createNonce();
     const html = await marked(output.reviewMarkdown);
@@ -82,20 +195,52 @@ export class ReviewPanel {
       return;
     }
 
-    const res = await applyFix(fix);
+    if (fix.outsideDiff) {
+      const choice = await vscode.window.showWarningMessage(
+        `"${fix.title}" edits ${fix.filePath}:${fix.startLine}-${fix.endLine}, which is outside the reviewed changes. Apply anyway?`,
+        { modal: true },
+        "Apply",
+      );
+      if (choice !== "Apply") {
+        this.panel.webview.postMessage({ type: "fixFailed", fixId });
+        return;
+      }
+    }
+
+    const res = await applyFix(fix, this.rootUri);
     if (!res.applied) {
       await vscode.window.showErrorMessage(res.reason ?? "Failed to apply fix.");
       this.panel.webview.postMessage({ type: "fixFailed", fixId });
       return;
     }
-    
+
     // Notify webview that fix was applied successfully
     this.panel.webview.postMessage({ type: "fixApplied", fixId });
     await vscode.window.showInformationMessage(`Applied fix: ${fix.title}`);
   }
 
+  private async handlePreviewFix(fixId: string): Promise<void> {
+    const fix = this.lastOutput?.fixes.find((f) => f.id === fixId);
+    if (!fix || !ReviewPanel.fixPreview) {
+      await vscode.window.showErrorMessage(`Fix not found: ${fixId}`);
+      return;
+    }
+    // Applying from the preview goes through the same checks as the panel's Apply button.
+    const reason = await ReviewPanel.fixPreview.show(fix, this.rootUri, this, () =>
+      this.handleApplyFix(fixId),
+    );
+    if (reason) await vscode.window.showErrorMessage(`Cannot preview "${fix.title}": ${reason}`);
+  }
+
+  /** A previewed fix belongs to the output it came from; applying it later would be stale. */
+  private discardPreview(): void {
+    void ReviewPanel.fixPreview?.discard(this);
+  }
+
   private dispose(): void {
-    ReviewPanel.current = undefined;
+    this.discardPreview();
+    this.cancelPartial();
+    ReviewPanel.panels.delete(this.rootUri.toString());
     this.panel.dispose();
     while (this.disposables.length) {
       this.disposables.pop()?.dispose();
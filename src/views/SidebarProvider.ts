@@ -1,24 +1,37 @@
 import * as vscode from "vscode";
+import { providerLabel } from "../ai/modelFactory";
+import { apiKeyOptional, getApiKeyForProvider, getSettings, usesApiKey } from "../config/settings";
+import type { ApiKeyStore } from "../secrets/apiKeyStore";
 import { getSidebarHtml } from "./sidebarHtml";
 import { PromptManager, type PromptInfo } from "../prompts/promptManager";
+import { isReviewScope, type ReviewScope } from "../git/gitManager";
+import { formatUsd } from "../review/cost";
+import type { BatchProgress } from "../review/reviewRunner";
 
 type SidebarToExtensionMessage =
   | { type: "init" }
   | { type: "runReview" }
+  | { type: "pickChanges" }
   | { type: "cancelReview" }
   | { type: "openSettings" }
+  | { type: "setApiKey" }
+  | { type: "clearApiKey" }
   | { type: "selectPrompt"; promptId: string }
+  | { type: "selectScope"; scope: string }
   | { type: "editPrompt"; promptId: string }
   | { type: "newPrompt" }
   | { type: "deletePrompt"; promptId: string };
 
 export class SidebarProvider implements vscode.WebviewViewProvider {
   static readonly viewType = "vscodeCodeReview.sidebar";
+  private static readonly REVIEW_SCOPE_KEY = "vscodeCodeReview.reviewScope";
 
   private view?: vscode.WebviewView;
-  private isReviewing = false;
+  private reviewing = false;
   private activity: string[] = [];
   private usageText = "N/A";
+  private spendText = "";
+  private batches: BatchProgress[] = [];
   private prompts: PromptInfo[] = [];
   private abortController?: AbortController;
 
@@ -27,6 +40,7 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
     private readonly extensionUri: vscode.Uri,
     private readonly output: vscode.OutputChannel,
     private readonly promptManager: PromptManager,
+    private readonly keys: ApiKeyStore,
   ) {}
 
   resolveWebviewView(
@@ -51,16 +65,28 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
         case "runReview":
           await vscode.commands.executeCommand("vscodeCodeReview.runReview");
           break;
+        case "pickChanges":
+          await vscode.commands.executeCommand("vscodeCodeReview.reviewSelectedChanges");
+          break;
         case "cancelReview":
           this.cancelReview();
           break;
         case "openSettings":
           await vscode.commands.executeCommand("vscodeCodeReview.openSettings");
           break;
+        case "setApiKey":
+          await vscode.commands.executeCommand("vscodeCodeReview.setApiKey");
+          break;
+        case "clearApiKey":
+          await vscode.commands.executeCommand("vscodeCodeReview.clearApiKey");
+          break;
         case "selectPrompt":
           await this.promptManager.setActivePromptId(message.promptId);
           await this.refresh();
           break;
+        case "selectScope":
+          if (isReviewScope(message.scope)) await this.setReviewScope(message.scope);
+          break;
         case "editPrompt":
           await this.openPromptForEdit(message.promptId);
           break;
@@ -83,11 +109,26 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
     await this.postState();
   }
 
+  getReviewScope(): ReviewScope {
+    const stored = this.context.workspaceState.get<string>(SidebarProvider.REVIEW_SCOPE_KEY);
+    return isReviewScope(stored) ? stored : "unstaged";
+  }
+
+  async setReviewScope(scope: ReviewScope): Promise<void> {
+    await this.context.workspaceState.update(SidebarProvider.REVIEW_SCOPE_KEY, scope);
+    await this.postState();
+  }
+
+  get isReviewing(): boolean {
+    return this.reviewing;
+  }
+
   setReviewing(value: boolean): void {
-    this.isReviewing = value;
+    this.reviewing = value;
     if (value) {
       this.activity = [];
       this.usageText = "N/A";
+      this.batches = [];
     } else {
       this.abortController = undefined;
     }
@@ -112,8 +153,20 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
     void this.postState();
   }
 
+  setBatchProgress(event: BatchProgress): void {
+    this.batches[event.index] = event;
+    void this.postState();
+  }
+
+  /** Shown until the first usage arrives: the cost estimated before the review started. */
+  setEstimate(usd: number | undefined): void {
+    this.usageText = usd === undefined ? "N/A" : `estimated ≈ ${formatUsd(usd)}`;
+    void this.postState();
+  }
+
   setUsage(
     usage: { inputTokens?: number; outputTokens?: number; totalTokens?: number } | undefined,
+    costUsd?: number,
   ) {
     if (!usage) {
       this.usageText = "N/A";
@@ -121,24 +174,51 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
       const i = usage.inputTokens ?? 0;
       const o = usage.outputTokens ?? 0;
       const t = usage.totalTokens ?? i + o;
-      this.usageText = `input=${i} output=${o} total=${t}`;
+      const cost = costUsd === undefined ? "" : ` · ${formatUsd(costUsd)}`;
+      this.usageText = `input=${i} output=${o} total=${t}${cost}`;
     }
     void this.postState();
   }
 
+  setSpend(text: string): void {
+    this.spendText = text;
+    void this.postState();
+  }
+
   private async postState(): Promise<void> {
     if (!this.view) return;
 
     this.view.webview.postMessage({
       type: "state",
-      isReviewing: this.isReviewing,
+      isReviewing: this.reviewing,
       prompts: this.prompts.map((p) => ({ id: p.id, name: p.name })),
       activePromptId: this.promptManager.getActivePromptId(),
+      reviewScope: this.getReviewScope(),
+      apiKeyText: await this.apiKeyStatus(),
       usageText: this.usageText,
+      spendText: this.spendText,
       activity: this.activity,
+      batchTotal: this.batches.find(Boolean)?.total ?? 0,
+      batches: this.batches.filter(Boolean).map((b) => ({
+        label: `Batch ${b.index + 1}/${b.total} · ${b.files} file${b.files === 1 ? "" : "s"}`,
+        status: b.status,
+      })),
     });
   }
 
+  private async apiKeyStatus(): Promise<string> {
+    const { provider } = getSettings();
+    if (!usesApiKey(provider)) return `${providerLabel(provider)}: no API key needed`;
+    const where = (await this.keys.has(provider))
+      ? "stored securely"
+      : getApiKeyForProvider(provider)
+        ? "in settings (plain text)"
+        : apiKeyOptional(provider)
+          ? "not set (optional)"
+          : "not set";
+    return `${providerLabel(provider)} API key: ${where}`;
+  }
+
   private async openPromptForEdit(promptId: string): Promise<void> {
     if (!promptId) return;
     const { uri } = await this.promptManager.getPromptContent(promptId);
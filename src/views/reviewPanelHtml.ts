@@ -1,4 +1,11 @@
-import type { ReviewOutput } from "../schema/reviewOutput";
+import { isFiltered } from "../review/severity";
+import type {
+  FileEdit,
+  ReviewedFinding,
+  ReviewedFix,
+  ReviewResult,
+  Verification,
+} from "../schema/reviewOutput";
 
 /**
  * Simple diff rendering: shows removed lines (red) and added lines (green)
@@ -34,6 +41,78 @@ function createDiffHtml(original: string | null, replacement: string): string {
   </div>`;
 }
 
+function findingLocation(f: ReviewedFinding): string {
+  if (!f.filePath) return "";
+  if (f.startLine === null) return f.filePath;
+  const end = f.endLine !== null && f.endLine !== f.startLine ? `-${f.endLine}` : "";
+  return `${f.filePath}:${f.startLine}${end}`;
+}
+
+const OUTSIDE_DIFF_BADGE = `<span class="badge outside-diff" title="Does not overlap any changed line">outside diff</span>`;
+const CARRIED_OVER_BADGE = `<span class="badge carried-over" title="From the previous review; this file's diff has not changed since">carried over</span>`;
+
+// Ensemble reviews: how many models agree is a confidence signal.
+function reportedByBadge(reportedBy: string[] | undefined): string {
+  if (!reportedBy) return "";
+  const text = reportedBy.length > 1 ? `${reportedBy.length} models` : reportedBy[0];
+  return `<span class="badge reported-by${reportedBy.length > 1 ? " agreed" : ""}" title="Reported by ${escapeHtmlForTemplate(reportedBy.join(", "))}">${escapeHtmlForTemplate(text)}</span>`;
+}
+
+function verificationBadge(verification: Verification | undefined): string {
+  if (verification?.status !== "confirmed") return "";
+  const confidence =
+    verification.confidence !== null ? ` (${Math.round(verification.confidence * 100)}%)` : "";
+  const title = `Confirmed by verification${confidence}${verification.reason ? `: ${verification.reason}` : ""}`;
+  return `<span class="badge verified" title="${escapeHtmlForTemplate(title)}">verified</span>`;
+}
+
+// Why verification filtered an item; shown on the cards in the filtered section.
+function rejectionNote(verification: Verification | undefined): string {
+  if (verification?.status !== "rejected") return "";
+  const confidence =
+    verification.confidence !== null
+      ? ` (confidence ${Math.round(verification.confidence * 100)}%)`
+      : "";
+  return `<div class="rejectionNote">Rejected${confidence}: ${escapeHtmlForTemplate(verification.reason ?? "no reason given")}</div>`;
+}
+
+function annotationBadges(item: {
+  outsideDiff?: boolean;
+  carriedOver?: boolean;
+  reportedBy?: string[];
+  verification?: Verification;
+}): string {
+  return [
+    verificationBadge(item.verification),
+    reportedByBadge(item.reportedBy),
+    item.carriedOver ? CARRIED_OVER_BADGE : "",
+    item.outsideDiff ? OUTSIDE_DIFF_BADGE : "",
+  ]
+    .filter(Boolean)
+    .map((b) => ` ${b}`)
+    .join("");
+}
+
+// Category, weakness id, rule and confidence; absent on reviews saved before they existed.
+function findingTags(f: ReviewedFinding): string {
+  const tags = [
+    f.category ? `<span class="badge category">${escapeHtmlForTemplate(f.category)}</span>` : "",
+    f.cwe
+      ? `<span class="badge cwe" title="Common Weakness Enumeration">${escapeHtmlForTemplate(f.cwe)}</span>`
+      : "",
+    f.ruleId
+      ? `<span class="badge rule" title="Based on rule ${escapeHtmlForTemplate(f.ruleId)}">${escapeHtmlForTemplate(f.ruleId)}</span>`
+      : "",
+    f.confidence !== null && f.confidence !== undefined
+      ? `<span class="badge confidence" title="Model's confidence that this is a real problem">${Math.round(f.confidence * 100)}%</span>`
+      : "",
+  ];
+  return tags
+    .filter(Boolean)
+    .map((t) => ` ${t}`)
+    .join("");
+}
+
 function escapeHtmlForTemplate(str: string): string {
   return String(str)
     .replace(/&/g, "&amp;")
@@ -43,34 +122,120 @@ function escapeHtmlForTemplate(str: string): string {
     .replace(/'/g, "&#039;");
 }
 
-export function getReviewPanelHtml(args: {
-  nonce: string;
-  reviewHtml: string;
-  output: ReviewOutput;
-}): string {
-  const serialized = JSON.stringify(args.output).replace(/</g, "\\u003c");
+/** Finding cards; also used for the partial findings streamed in while the review runs. */
+export function renderFindingsHtml(findings: ReviewedFinding[]): string {
+  return findings
+    .map((f) => {
+      const location = findingLocation(f);
+      const open = f.filePath
+        ? `<button class="secondary" data-open="${escapeHtmlForTemplate(f.filePath)}" data-line="${f.startLine ?? 1}">Open</button>`
+        : "";
+      return `
+        <div class="finding${f.outsideDiff ? " outside" : ""}${f.carriedOver ? " carried" : ""}">
+          <div class="fixTitle">
+            <div><span class="badge severity-${f.severity}">${f.severity}</span>${findingTags(f)} ${escapeHtmlForTemplate(f.title)}${annotationBadges(f)}</div>
+            <div class="fix-actions">${open}</div>
+          </div>
+          ${location ? `<div class="fixMeta">${escapeHtmlForTemplate(location)}</div>` : ""}
+          ${rejectionNote(f.verification)}
+          ${f.rationale ? `<div>${escapeHtmlForTemplate(f.rationale)}</div>` : ""}
+          ${f.suggestedTest ? `<div class="suggestedTest"><strong>Suggested test:</strong> ${escapeHtmlForTemplate(f.suggestedTest)}</div>` : ""}
+        </div>
+      `;
+    })
+    .join("");
+}
 
-  // Pre-render fix cards with diff views
-  const fixCardsHtml = args.output.fixes
+function editCount(edits: FileEdit[]): string {
+  if (edits.length === 0) return "";
+  const files = new Set(edits.map((e) => e.filePath)).size;
+  return ` · ${edits.length} more edit${edits.length === 1 ? "" : "s"} in ${files} file${files === 1 ? "" : "s"}, applied together`;
+}
+
+// Multi-edit fixes: every further edit with its own location and change.
+function additionalEditsHtml(edits: FileEdit[]): string {
+  return edits
+    .map((e) => {
+      const path = escapeHtmlForTemplate(e.filePath);
+      if (e.kind === "delete") {
+        return `<div class="editMeta">Deletes <code>${path}</code></div>`;
+      }
+      if (e.kind === "create") {
+        return `<div class="editMeta">Creates <code>${path}</code></div>${createDiffHtml(null, e.replacement ?? "")}`;
+      }
+      return `<div class="editMeta"><code>${path}:${e.startLine}-${e.endLine}</code></div>${createDiffHtml(e.expectedOriginalSnippet, e.replacement ?? "")}`;
+    })
+    .join("");
+}
+
+function renderFixesHtml(fixes: ReviewedFix[]): string {
+  return fixes
     .map((fix) => {
       const meta = `${fix.filePath}:${fix.startLine}-${fix.endLine}`;
       const diffHtml = createDiffHtml(fix.expectedOriginalSnippet, fix.replacement);
 
+      // Alternatives edit the same lines as the fix they follow; applying one retires the others.
+      const group = escapeHtmlForTemplate(fix.alternativeOf ?? fix.id);
+      const alternative = fix.alternativeOf
+        ? `<div class="alternativeNote">Alternative to the fix above</div>`
+        : "";
       return `
-        <div class="fix" data-fix-id="${escapeHtmlForTemplate(fix.id)}">
+        <div class="fix${fix.alternativeOf ? " alternative" : ""}" data-fix-id="${escapeHtmlForTemplate(fix.id)}" data-fix-group="${group}">
+          ${alternative}
           <div class="fixTitle">
-            <div>${escapeHtmlForTemplate(fix.title)}</div>
+            <div>${escapeHtmlForTemplate(fix.title)}${annotationBadges(fix)}</div>
             <div class="fix-actions">
               <button class="secondary" data-open="${escapeHtmlForTemplate(fix.filePath)}" data-line="${fix.startLine}">Open</button>
+              <button class="secondary preview-btn" data-preview="${escapeHtmlForTemplate(fix.id)}">Preview</button>
               <button class="primary apply-btn" data-apply="${escapeHtmlForTemplate(fix.id)}">Apply</button>
             </div>
           </div>
-          <div class="fixMeta">${escapeHtmlForTemplate(meta)}</div>
+          <div class="fixMeta">${escapeHtmlForTemplate(meta)}${editCount(fix.additionalEdits)}</div>
+          ${rejectionNote(fix.verification)}
           ${diffHtml}
+          ${additionalEditsHtml(fix.additionalEdits)}
         </div>
       `;
     })
     .join("");
+}
+
+export function getReviewPanelHtml(args: {
+  nonce: string;
+  reviewHtml: string;
+  output: ReviewResult;
+  /** The review is still running: partial results arrive as `partial` messages. */
+  streaming?: boolean;
+}): string {
+  const serialized = JSON.stringify(args.output).replace(/</g, "\\u003c");
+  // Verification rejects are hidden unless the filtered section is expanded.
+  const findingsHtml = renderFindingsHtml(args.output.findings.filter((f) => !isFiltered(f)));
+  const fixCardsHtml = renderFixesHtml(args.output.fixes.filter((f) => !isFiltered(f)));
+  const filteredFindings = args.output.findings.filter(isFiltered);
+  const filteredFixes = args.output.fixes.filter(isFiltered);
+  const filteredCount = filteredFindings.length + filteredFixes.length;
+  const filteredHtml =
+    filteredCount > 0
+      ? `<details id="filtered">
+    <summary>Filtered by verification (${filteredCount})</summary>
+    ${renderFindingsHtml(filteredFindings)}
+    ${renderFixesHtml(filteredFixes)}
+  </details>`
+      : "";
+  // Items the model returned malformed; they cannot be applied, only explained.
+  const dropped = args.output.dropped ?? [];
+  const droppedHtml =
+    dropped.length > 0
+      ? `<details id="dropped">
+    <summary>Dropped from the model's output (${dropped.length})</summary>
+    <ul>${dropped
+      .map(
+        (d) =>
+          `<li><strong>${d.kind}</strong> ${escapeHtmlForTemplate(d.summary)}: <span class="droppedReason">${escapeHtmlForTemplate(d.reason)}</span></li>`,
+      )
+      .join("")}</ul>
+  </details>`
+      : "";
 
   return `<!doctype html>
 <html lang="en">
@@ -97,6 +262,119 @@ export function getReviewPanelHtml(args: {
       margin: 12px 0;
       background: var(--vscode-editor-background);
     }
+    .finding {
+      border: 1px solid var(--vscode-widget-border);
+      border-radius: 6px;
+      padding: 12px;
+      margin: 12px 0;
+    }
+    .finding.outside {
+      opacity: 0.7;
+      border-style: dashed;
+    }
+    .badge {
+      display: inline-block;
+      border-radius: 3px;
+      padding: 0 6px;
+      font-size: 11px;
+      font-weight: 600;
+      text-transform: uppercase;
+      background: var(--vscode-badge-background);
+      color: var(--vscode-badge-foreground);
+    }
+    .badge.severity-critical,
+    .badge.severity-high {
+      background: var(--vscode-errorForeground, #f44336);
+      color: var(--vscode-editor-background);
+    }
+    .badge.severity-medium {
+      background: var(--vscode-editorWarning-foreground, #ff9800);
+      color: var(--vscode-editor-background);
+    }
+    .finding.carried {
+      border-left: 3px solid var(--vscode-descriptionForeground);
+    }
+    .badge.carried-over {
+      background: var(--vscode-editor-inactiveSelectionBackground);
+      color: var(--vscode-descriptionForeground);
+    }
+    .badge.outside-diff {
+      background: transparent;
+      color: var(--vscode-descriptionForeground);
+      border: 1px dashed var(--vscode-descriptionForeground);
+    }
+    .streaming {
+      color: var(--vscode-descriptionForeground);
+      font-style: italic;
+      margin-bottom: 12px;
+    }
+    .fix.alternative {
+      margin-left: 24px;
+      border-style: dashed;
+    }
+    .alternativeNote {
+      color: var(--vscode-descriptionForeground);
+      font-size: 11px;
+      margin-bottom: 6px;
+    }
+    .badge.category,
+    .badge.rule,
+    .badge.confidence {
+      text-transform: none;
+      background: transparent;
+      color: var(--vscode-descriptionForeground);
+      border: 1px solid var(--vscode-widget-border);
+    }
+    .badge.cwe {
+      background: var(--vscode-inputValidation-errorBackground, transparent);
+      color: var(--vscode-errorForeground, #f44336);
+      border: 1px solid var(--vscode-errorForeground, #f44336);
+    }
+    .editMeta {
+      color: var(--vscode-descriptionForeground);
+      font-size: 12px;
+      margin-top: 12px;
+    }
+    .suggestedTest {
+      margin-top: 6px;
+      color: var(--vscode-descriptionForeground);
+    }
+    .badge.verified {
+      background: transparent;
+      color: var(--vscode-charts-green, #4caf50);
+      border: 1px solid var(--vscode-charts-green, #4caf50);
+    }
+    #filtered,
+    #dropped {
+      margin-top: 24px;
+      opacity: 0.75;
+    }
+    #filtered summary,
+    #dropped summary {
+      cursor: pointer;
+      color: var(--vscode-descriptionForeground);
+    }
+    .droppedReason {
+      color: var(--vscode-descriptionForeground);
+    }
+    .rejectionNote {
+      color: var(--vscode-descriptionForeground);
+      font-style: italic;
+      margin-bottom: 6px;
+    }
+    .fix.superseded {
+      opacity: 0.5;
+    }
+    .badge.reported-by {
+      text-transform: none;
+      background: transparent;
+      color: var(--vscode-descriptionForeground);
+      border: 1px solid var(--vscode-descriptionForeground);
+    }
+    .badge.reported-by.agreed {
+      color: var(--vscode-charts-green, #4caf50);
+      border-color: var(--vscode-charts-green, #4caf50);
+    }
     .fix.applied {
       opacity: 0.6;
       border-color: var(--vscode-charts-green, #4caf50);
@@ -224,10 +502,15 @@ export function getReviewPanelHtml(args: {
   </style>
 </head>
 <body>
+  ${args.streaming ? `<div class="streaming" id="streaming">Reviewing… results appear as the model writes them.</div>` : ""}
   <div id="review">${args.reviewHtml}</div>
   <hr />
+  <h2>Findings</h2>
+  <div id="findings">${findingsHtml || `<p>${args.streaming ? "No findings yet." : "No findings."}</p>`}</div>
   <h2>Fixes</h2>
-  <div id="fixes">${fixCardsHtml || "<p>No fixes suggested.</p>"}</div>
+  <div id="fixes">${fixCardsHtml || `<p>${args.streaming ? "Fixes are listed when the review finishes." : "No fixes suggested."}</p>`}</div>
+  ${filteredHtml}
+  ${droppedHtml}
 
   <script nonce="${args.nonce}">
     const vscode = acquireVsCodeApi();
@@ -235,11 +518,17 @@ export function getReviewPanelHtml(args: {
     const appliedFixes = new Set();
 
     const fixesEl = document.getElementById('fixes');
+    const findingsEl = document.getElementById('findings');
 
-    fixesEl.addEventListener('click', (e) => {
+    function onCardClick(e) {
       const t = e.target;
       if (!(t instanceof HTMLElement)) return;
       
+      const previewId = t.getAttribute('data-preview');
+      if (previewId && !appliedFixes.has(previewId)) {
+        vscode.postMessage({ type: 'previewFix', fixId: previewId });
+      }
+
       const fixId = t.getAttribute('data-apply');
       if (fixId && !appliedFixes.has(fixId)) {
         // Disable button immediately to prevent double-clicks
@@ -253,14 +542,23 @@ export function getReviewPanelHtml(args: {
       if (filePath) {
         vscode.postMessage({ type: 'openFile', filePath, line: Number(lineStr || '1') });
       }
-    });
+    }
+    findingsEl.addEventListener('click', onCardClick);
+    fixesEl.addEventListener('click', onCardClick);
+    document.getElementById('filtered')?.addEventListener('click', onCardClick);
 
     // Listen for messages from extension
     window.addEventListener('message', (event) => {
       const msg = event.data;
       if (!msg) return;
 
-      if (msg.type === 'fixApplied') {
+      if (msg.type === 'partial') {
+        document.getElementById('review').innerHTML = msg.reviewHtml;
+        findingsEl.innerHTML = msg.findingsHtml || '<p>No findings yet.</p>';
+      } else if (msg.type === 'streamFailed') {
+        const banner = document.getElementById('streaming');
+        if (banner) banner.textContent = msg.message;
+      } else if (msg.type === 'fixApplied') {
         appliedFixes.add(msg.fixId);
         const fixEl = document.querySelector(\`.fix[data-fix-id="\${msg.fixId}"]\`);
         if (fixEl) {
@@ -270,6 +568,21 @@ export function getReviewPanelHtml(args: {
             applyBtn.textContent = 'Applied';
             applyBtn.disabled = true;
           }
+          const previewBtn = fixEl.querySelector('.preview-btn');
+          if (previewBtn) previewBtn.disabled = true;
+          // The other alternatives edit lines that just changed.
+          const group = fixEl.getAttribute('data-fix-group');
+          document.querySelectorAll(\`.fix[data-fix-group="\${group}"]\`).forEach((el) => {
+            if (el === fixEl) return;
+            el.classList.add('superseded');
+            const btn = el.querySelector('.apply-btn');
+            if (btn) {
+              btn.textContent = 'Superseded';
+              btn.disabled = true;
+            }
+            const preview = el.querySelector('.preview-btn');
+            if (preview) preview.disabled = true;
+          });
         }
       } else if (msg.type === 'fixFailed') {
         const fixEl = document.querySelector(\`.fix[data-fix-id="\${msg.fixId}"]\`);
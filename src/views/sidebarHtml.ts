@@ -109,34 +109,54 @@ export function getSidebarHtml(): { html: string; nonce: string } {
     <button class="secondary" id="deletePrompt">Delete</button>
   </div>
 
+  <div class="sectionTitle" style="margin-top:16px;">Changes to review</div>
+  <select id="scopeSelect">
+    <option value="unstaged">Unstaged</option>
+    <option value="staged">Staged</option>
+    <option value="both">Staged + unstaged</option>
+  </select>
+
   <div class="row">
     <button class="secondary" id="settings">Settings</button>
+    <button class="secondary" id="setApiKey">Set API Key</button>
+    <button class="secondary" id="clearApiKey">Clear Key</button>
   </div>
+  <div class="small" id="apiKeyLine"></div>
 
   <div class="row">
     <button class="primary" id="run">Run Code Review</button>
+    <button class="secondary" id="pickChanges" title="Choose files or hunks to review">Pick…</button>
     <button class="secondary" id="cancel" style="display:none;">Stop</button>
   </div>
 
   <div class="sectionTitle" style="margin-top:16px;">Activity</div>
   <div class="small" id="statusLine">Idle</div>
+  <div class="list" id="batchList" style="display:none;"></div>
   <div class="list" id="activityList">(no activity)</div>
 
   <div class="sectionTitle" style="margin-top:16px;">Usage</div>
   <div class="small" id="usageLine">N/A</div>
+  <div class="small" id="spendLine"></div>
 
   <script nonce="${nonce}">
     const vscode = acquireVsCodeApi();
     const promptSelect = document.getElementById('promptSelect');
+    const scopeSelect = document.getElementById('scopeSelect');
     const runBtn = document.getElementById('run');
     const cancelBtn = document.getElementById('cancel');
+    const pickChangesBtn = document.getElementById('pickChanges');
     const settingsBtn = document.getElementById('settings');
+    const setApiKeyBtn = document.getElementById('setApiKey');
+    const clearApiKeyBtn = document.getElementById('clearApiKey');
+    const apiKeyLine = document.getElementById('apiKeyLine');
     const editPromptBtn = document.getElementById('editPrompt');
     const newPromptBtn = document.getElementById('newPrompt');
     const deletePromptBtn = document.getElementById('deletePrompt');
     const statusLine = document.getElementById('statusLine');
     const activityList = document.getElementById('activityList');
     const usageLine = document.getElementById('usageLine');
+    const spendLine = document.getElementById('spendLine');
+    const batchList = document.getElementById('batchList');
 
     vscode.postMessage({ type: 'init' });
 
@@ -144,17 +164,27 @@ export function getSidebarHtml(): { html: string; nonce: string } {
       vscode.postMessage({ type: 'runReview' });
     });
 
+    pickChangesBtn.addEventListener('click', () => {
+      vscode.postMessage({ type: 'pickChanges' });
+    });
+
     cancelBtn.addEventListener('click', () => {
       vscode.postMessage({ type: 'cancelReview' });
     });
 
     settingsBtn.addEventListener('click', () => vscode.postMessage({ type: 'openSettings' }));
+    setApiKeyBtn.addEventListener('click', () => vscode.postMessage({ type: 'setApiKey' }));
+    clearApiKeyBtn.addEventListener('click', () => vscode.postMessage({ type: 'clearApiKey' }));
 
     promptSelect.addEventListener('change', () => {
       if (!promptSelect.value) return;
       vscode.postMessage({ type: 'selectPrompt', promptId: promptSelect.value });
     });
 
+    scopeSelect.addEventListener('change', () => {
+      vscode.postMessage({ type: 'selectScope', scope: scopeSelect.value });
+    });
+
     editPromptBtn.addEventListener('click', () => {
       vscode.postMessage({ type: 'editPrompt', promptId: promptSelect.value });
     });
@@ -166,6 +196,13 @@ export function getSidebarHtml(): { html: string; nonce: string } {
     function setStatus(text) {
       statusLine.textContent = text;
     }
+    const BATCH_ICONS = { running: '…', done: '✓', failed: '✗' };
+    function setBatches(batches) {
+      batchList.style.display = batches.length > 0 ? 'block' : 'none';
+      batchList.textContent = batches
+        .map((b) => \`\${BATCH_ICONS[b.status] || ''} \${b.label}\`)
+        .join('\\n');
+    }
     function setUsage(text) {
       usageLine.textContent = text;
     }
@@ -183,18 +220,34 @@ export function getSidebarHtml(): { html: string; nonce: string } {
 
       switch (msg.type) {
         case 'state': {
-          setStatus(msg.isReviewing ? 'Reviewing…' : 'Idle');
+          const batches = msg.batches || [];
+          const finished = batches.filter((b) => b.status !== 'running').length;
+          setStatus(
+            !msg.isReviewing
+              ? 'Idle'
+              : msg.batchTotal > 0
+                ? \`Reviewing… (\${finished}/\${msg.batchTotal} batches finished)\`
+                : 'Reviewing…',
+          );
+          setBatches(batches);
           setActivity(msg.activity || []);
           setUsage(msg.usageText || 'N/A');
+          spendLine.textContent = msg.spendText || '';
           const isReviewing = !!msg.isReviewing;
           runBtn.disabled = isReviewing;
           runBtn.textContent = isReviewing ? 'Reviewing...' : 'Run Code Review';
           cancelBtn.style.display = isReviewing ? 'block' : 'none';
+          pickChangesBtn.style.display = isReviewing ? 'none' : 'block';
           promptSelect.disabled = isReviewing;
+          scopeSelect.disabled = isReviewing;
+          if (msg.reviewScope) scopeSelect.value = msg.reviewScope;
           editPromptBtn.disabled = isReviewing;
           newPromptBtn.disabled = isReviewing;
           deletePromptBtn.disabled = isReviewing;
           settingsBtn.disabled = isReviewing;
+          setApiKeyBtn.disabled = isReviewing;
+          clearApiKeyBtn.disabled = isReviewing;
+          apiKeyLine.textContent = msg.apiKeyText || '';
 
           // prompts
           if (Array.isArray(msg.prompts)) {